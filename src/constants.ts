@@ -1,16 +1,148 @@
-/** Maximum number of terminals per tab */
-export const TERMINAL_COUNT = 4;
+import { GridLayout, ModelPrice } from './types';
 
-/** Delay in ms before running claude command after shell starts */
-export const SHELL_INIT_DELAY_MS = 500;
+/** Rows and columns of each grid layout, 'auto' grows up to 2x2 as terminals are added */
+export const GRID_LAYOUTS: Record<GridLayout, { rows: number; cols: number; label: string }> = {
+  auto: { rows: 2, cols: 2, label: 'Automatic (up to 2x2)' },
+  '1x1': { rows: 1, cols: 1, label: 'Single' },
+  '1x2': { rows: 1, cols: 2, label: '2 columns' },
+  '2x1': { rows: 2, cols: 1, label: '2 rows' },
+  '1x3': { rows: 1, cols: 3, label: '3 columns' },
+  '2x2': { rows: 2, cols: 2, label: '2x2' },
+  '2x3': { rows: 2, cols: 3, label: '2 rows, 3 columns' },
+  '3x3': { rows: 3, cols: 3, label: '3x3' },
+};
 
-/** Delay in ms before marking terminal as idle after output stops */
+/** Maximum number of terminals per tab, across all layouts */
+export const TERMINAL_COUNT = 9;
+
+/** Delay in ms between detecting the shell prompt and typing the agent command */
+export const PROMPT_SETTLE_DELAY_MS = 100;
+
+/** Output silence in ms after which a cursor line ending like a prompt counts as one */
+export const PROMPT_QUIET_MS = 1000;
+
+/** Default time in ms to wait for the shell prompt before giving up */
+export const SHELL_READY_TIMEOUT_MS = 10000;
+
+/** Delay in ms before marking a shell terminal as idle after output stops */
 export const IDLE_TIMEOUT_MS = 2000;
 
-/** Set of valid terminal IDs (0-3) */
-export const VALID_TERMINAL_IDS = new Set([0, 1, 2, 3]);
+/** Delay in ms without agent frames before it counts as waiting for input */
+export const AGENT_QUIET_MS = 1200;
+
+/** Time in ms a tool call header keeps the agent in the running-tool state */
+export const AGENT_TOOL_WINDOW_MS = 3000;
+
+/** Default number of characters of raw output kept per terminal for webview replay */
+export const SCROLLBACK_BUFFER_SIZE = 1024 * 1024;
+
+/** Interval in ms over which terminal output is coalesced into one webview message */
+export const OUTPUT_FLUSH_INTERVAL_MS = 16;
+
+/** Characters of buffered output that are sent at once without waiting for the interval */
+export const OUTPUT_BATCH_MAX_CHARS = 64 * 1024;
+
+/** Characters sent but not yet written by xterm at which the PTY is paused */
+export const OUTPUT_HIGH_WATERMARK = 256 * 1024;
+
+/** Characters sent but not yet written by xterm below which a paused PTY resumes */
+export const OUTPUT_LOW_WATERMARK = 64 * 1024;
+
+/** Time in ms a paused PTY waits for acknowledgements before resuming anyway */
+export const OUTPUT_ACK_TIMEOUT_MS = 5000;
+
+/** Time in ms to wait for a newly started pty host to accept connections */
+export const PTY_HOST_CONNECT_TIMEOUT_MS = 5000;
+
+/** Time in ms the pty host keeps terminals running without a connected extension */
+export const PTY_HOST_ORPHAN_TIMEOUT_MS = 60000;
+
+/** Delay in ms between text typed into a terminal and the Enter that submits it */
+export const SUBMIT_DELAY_MS = 100;
+
+/** Time in ms API calls wait for the grid to open and restore its layout */
+export const API_VIEW_READY_TIMEOUT_MS = 10000;
+
+/** Time in ms a terminal started with a prompt gets to become ready for input */
+export const API_PROMPT_TIMEOUT_MS = 60000;
+
+/** Time in ms to wait for the webview to answer a search across terminals */
+export const SEARCH_RESULTS_TIMEOUT_MS = 5000;
+
+/** Time in ms to wait for the webview to send a terminal's buffer for a transcript */
+export const TRANSCRIPT_BUFFER_TIMEOUT_MS = 5000;
+
+/** Number of sessions the session browser lists per page */
+export const SESSION_PAGE_SIZE = 50;
+
+/** Delay in ms after typing before the session browser searches message contents */
+export const SESSION_SEARCH_DEBOUNCE_MS = 300;
 
-/** Check if a terminal ID is valid */
-export function isValidTerminalId(terminalId: number): boolean {
-  return VALID_TERMINAL_IDS.has(terminalId);
+/** Size in bytes of the chunks session files are read in */
+export const SESSION_READ_CHUNK_BYTES = 64 * 1024;
+
+/** Delay in ms after a session file changes before the index is refreshed */
+export const SESSION_WATCH_DEBOUNCE_MS = 500;
+
+/** Delay in ms before index changes are written to the cache file */
+export const SESSION_INDEX_SAVE_DELAY_MS = 2000;
+
+/** Number of terminal slots in a layout */
+export function getSlotCount(layout: GridLayout): number {
+  const { rows, cols } = GRID_LAYOUTS[layout] ?? GRID_LAYOUTS.auto;
+  return rows * cols;
+}
+
+/**
+ * Check if a terminal ID is valid, optionally for a specific layout
+ */
+export function isValidTerminalId(terminalId: number, layout?: GridLayout): boolean {
+  const count = layout ? getSlotCount(layout) : TERMINAL_COUNT;
+  return Number.isInteger(terminalId) && terminalId >= 0 && terminalId < count;
 }
+
+/** File in the extension's global storage holding the session index cache */
+export const SESSION_INDEX_FILE = 'session-index.json';
+
+/** File in the extension's global storage holding session titles and archive flags */
+export const SESSION_METADATA_FILE = 'session-metadata.json';
+
+/** Workspace state key for the saved tab and terminal layout */
+export const LAYOUT_STATE_KEY = 'quadTerminal.layout';
+
+/** Workspace state key for the launch profile last used per project */
+export const PROJECT_PROFILES_STATE_KEY = 'quadTerminal.projectProfiles';
+
+/** Workspace state key for the review baselines of terminals running in the pty host */
+export const REVIEW_BASELINES_STATE_KEY = 'quadTerminal.reviewBaselines';
+
+/** Workspace state key for the most recently opened project paths */
+export const RECENT_PROJECTS_STATE_KEY = 'quadTerminal.recentProjects';
+
+/** Number of recently opened projects remembered */
+export const RECENT_PROJECTS_LIMIT = 20;
+
+/** Files or folders that mark a directory as a project when discovering nested projects */
+export const DEFAULT_PROJECT_MARKERS = ['package.json', '.git', 'CLAUDE.md'];
+
+/** Directories looked into at most when discovering nested projects, for huge workspaces */
+export const PROJECT_DISCOVERY_MAX_DIRS = 2000;
+
+/** Project file with the shell and environment of the project's terminals */
+export const PROJECT_CONFIG_FILE = '.quadterminal.json';
+
+/** Time in ms a project whose Claude directory was not found is not searched for again */
+export const PROJECT_DIR_MISS_TTL_MS = 30000;
+
+/** How often terminals waiting for their session file look for it */
+export const SESSION_DETECT_INTERVAL_MS = 2000;
+
+/** How often the session files of running terminals are read for token usage */
+export const USAGE_POLL_INTERVAL_MS = 5000;
+
+/** Default model prices in USD per million tokens, keyed by part of the model name */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  opus: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  sonnet: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  haiku: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+};
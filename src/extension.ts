@@ -1,13 +1,27 @@
 import * as vscode from 'vscode';
 import { QuadTerminalViewProvider } from './provider';
+import { QuadTerminalApi, StartInSlotOptions, TerminalRef } from './types';
 
 // Store provider reference for cleanup on deactivate
 let providerInstance: QuadTerminalViewProvider | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+/**
+ * Run a command that tasks, keybindings and other extensions call with
+ * arguments, showing why it failed instead of failing silently
+ */
+async function runCommand<T>(run: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await run();
+  } catch (error) {
+    vscode.window.showErrorMessage(`Quad Terminal: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+export function activate(context: vscode.ExtensionContext): QuadTerminalApi {
   console.log('Quad Terminal is now active!');
 
-  const provider = new QuadTerminalViewProvider(context.extensionUri);
+  const provider = new QuadTerminalViewProvider(context);
   providerInstance = provider;
 
   context.subscriptions.push(
@@ -39,10 +53,121 @@ export function activate(context: vscode.ExtensionContext) {
       provider.newTab();
     })
   );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.exportTranscript', () => {
+      provider.exportTranscript();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.reviewChanges', () => {
+      provider.reviewChanges();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.broadcast', () => {
+      provider.broadcast();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.toggleBroadcast', (arg?: { tabId?: number }) => {
+      provider.toggleBroadcast(arg?.tabId);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.searchAll', () => {
+      provider.searchAll();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.browseSessions', () => {
+      provider.browseSessions();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.showUsage', () => {
+      provider.showUsage();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.showOutputMetrics', () => {
+      provider.showOutputMetrics();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.setLayout', (arg?: { tabId?: number }) => {
+      // Invoked with the tab's context when run from the tab context menu
+      provider.changeLayout(arg?.tabId);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.sendSelection', () => {
+      provider.sendSelection();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'quadTerminal.sendFileReference',
+      (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        // Invoked with the clicked file and the selected files from the explorer
+        provider.sendFileReference(uri instanceof vscode.Uri ? uri : undefined, uris);
+      }
+    )
+  );
+
+  // Commands taking a slot accept { tabId, terminalId } and ask for the terminal without it
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.startInSlot', (arg?: Partial<StartInSlotOptions>) =>
+      runCommand(() => provider.startInSlot(arg))
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'quadTerminal.sendText',
+      (arg?: Partial<TerminalRef> & { text?: string; submit?: boolean }) =>
+        runCommand(() => provider.sendText(arg, arg?.text, arg?.submit))
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.kill', (arg?: Partial<TerminalRef>) =>
+      runCommand(() => provider.kill(arg))
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.restart', (arg?: Partial<TerminalRef>) =>
+      runCommand(() => provider.restart(arg))
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.focusSlot', (arg?: Partial<TerminalRef>) =>
+      runCommand(() => provider.focusSlot(arg))
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quadTerminal.listTerminals', () => provider.listTerminals())
+  );
+
+  return provider.getApi();
 }
 
 export function deactivate() {
-  // Kill all terminal processes when extension deactivates
+  // Let go of the terminals, the pty host keeps them running for the next
+  // extension host. Terminals running in this extension host are killed.
   if (providerInstance) {
     providerInstance.dispose();
     providerInstance = undefined;
@@ -0,0 +1,140 @@
+import { TerminalStatus } from '../types';
+import { stripAnsi } from './ansi';
+import { AGENT_QUIET_MS, AGENT_TOOL_WINDOW_MS } from '../constants';
+
+/** Claude's spinner line, redrawn continuously while it works */
+const WORKING_PATTERN = /esc to interrupt/i;
+
+/** A tool call header or a tool that is still running */
+const TOOL_PATTERN = /⏺\s*[A-Z]\w*\(|Running…|Running\.\.\./;
+
+/** Permission dialogs for edits, commands and tools */
+const PERMISSION_PATTERN =
+  /Do you want to (?:proceed|make this edit|create|allow|run)|don't ask again/i;
+
+/** Printed by Claude when it exits back to the shell */
+const EXIT_PATTERN = /Resume this session with:|claude --resume [0-9a-f-]{36}/;
+
+/** The shell could not start the agent, only checked until the agent drew its first frame */
+const LAUNCH_ERROR_PATTERN = /command not found|is not recognized as/i;
+
+/** Claude's own error line when an API request failed, e.g. "⎿  API Error: 529 {...}" */
+const API_ERROR_PATTERN = /^\s*(?:⎿\s*)?API Error: (?:\d{3}\b|Request timed out|Connection error)/m;
+
+/** Claude's welcome box or input prompt, drawn once the agent runs */
+const AGENT_FRAME_PATTERN = /Welcome to Claude|╭─|\? for shortcuts/;
+
+/** Characters of the previous chunk kept so keywords split across chunks match */
+const CARRY_LENGTH = 64;
+
+/**
+ * Derives an agent terminal's state from its output stream.
+ *
+ * Claude redraws its spinner line many times a second while thinking or
+ * running tools, so the state follows what the latest frames show rather
+ * than whether any output arrived. When frames stop without a permission
+ * dialog on screen, the agent is waiting for input.
+ */
+export class AgentStateTracker {
+  private _status: TerminalStatus = 'starting';
+  private carry = '';
+  private launched = false;
+  /** Whether the agent drew anything yet, after which shell errors are its tools' output */
+  private agentSeen = false;
+  private lastToolAt = 0;
+  private quietTimer?: NodeJS.Timeout;
+
+  /**
+   * @param onChange Called whenever the status changes
+   */
+  constructor(private onChange: (status: TerminalStatus) => void) {}
+
+  /** Current status */
+  get status(): TerminalStatus {
+    return this._status;
+  }
+
+  /** Record that the agent command was typed into the shell */
+  markLaunched(): void {
+    this.launched = true;
+  }
+
+  /** Record that the agent failed to start */
+  markError(): void {
+    this.setStatus('error');
+  }
+
+  /** Record that the process exited */
+  markExited(): void {
+    this.clearQuietTimer();
+    this.setStatus('exited');
+  }
+
+  /** Feed a chunk of PTY output */
+  feed(data: string): void {
+    if (!this.launched) return;
+
+    const text = this.carry + stripAnsi(data);
+    this.carry = text.slice(-CARRY_LENGTH);
+    const now = Date.now();
+
+    if (EXIT_PATTERN.test(text)) {
+      this.markExited();
+      return;
+    }
+    const launchError = !this.agentSeen && LAUNCH_ERROR_PATTERN.test(text);
+    if (
+      AGENT_FRAME_PATTERN.test(text) ||
+      WORKING_PATTERN.test(text) ||
+      PERMISSION_PATTERN.test(text)
+    ) {
+      this.agentSeen = true;
+    }
+
+    if (launchError || API_ERROR_PATTERN.test(text)) {
+      this.setStatus('error');
+    } else if (PERMISSION_PATTERN.test(text)) {
+      this.setStatus('awaiting-permission');
+    } else if (WORKING_PATTERN.test(text)) {
+      if (TOOL_PATTERN.test(text)) {
+        this.lastToolAt = now;
+      }
+      this.setStatus(
+        now - this.lastToolAt < AGENT_TOOL_WINDOW_MS ? 'running-tool' : 'thinking'
+      );
+    } else if (TOOL_PATTERN.test(text)) {
+      this.lastToolAt = now;
+    }
+
+    // Once frames stop, a working or starting agent is waiting for input
+    this.clearQuietTimer();
+    this.quietTimer = setTimeout(() => {
+      if (
+        this._status === 'starting' ||
+        this._status === 'thinking' ||
+        this._status === 'running-tool'
+      ) {
+        this.setStatus('awaiting-input');
+      }
+    }, AGENT_QUIET_MS);
+  }
+
+  /** Stop tracking */
+  dispose(): void {
+    this.clearQuietTimer();
+  }
+
+  private setStatus(status: TerminalStatus): void {
+    if (this._status !== status) {
+      this._status = status;
+      this.onChange(status);
+    }
+  }
+
+  private clearQuietTimer(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer);
+      this.quietTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/** Matches CSI, OSC and two-character escape sequences */
+const ANSI_PATTERN =
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/** Splits output into escape sequences, line controls and plain text runs */
+const TOKEN_PATTERN =
+  /(\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]|\r\n|\r|\n|\x08)/;
+
+/** Matches an SGR (colour and style) sequence, capturing its parameters */
+const SGR_PATTERN = /^\x1b\[([0-9;:]*)m$/;
+
+/** Matches a cursor forward sequence, capturing the number of columns */
+const CURSOR_FORWARD_PATTERN = /^\x1b\[(\d*)C$/;
+
+/** VS Code's default dark terminal colours for ANSI 0-15 */
+export const DEFAULT_ANSI_PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#e5e5e5',
+];
+
+/**
+ * Remove terminal escape sequences from PTY output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Flatten PTY output into plain lines, applying carriage returns and
+ * backspaces the way a terminal would and dropping escape sequences.
+ * Cursor forward sequences, which skip blank cells, become spaces.
+ */
+export function ansiToText(text: string): string {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of text.split(TOKEN_PATTERN)) {
+    if (!token) continue;
+    if (token.startsWith('\x1b')) {
+      line += cursorForwardSpaces(token);
+      continue;
+    }
+    if (token === '\n' || token === '\r\n') {
+      lines.push(line.trimEnd());
+      line = '';
+    } else if (token === '\r') {
+      line = '';
+    } else if (token === '\x08') {
+      line = line.slice(0, -1);
+    } else {
+      line += token;
+    }
+  }
+  lines.push(line.trimEnd());
+
+  return lines.join('\n');
+}
+
+interface SgrState {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+/**
+ * Render PTY output as HTML spans keeping SGR colours and styles,
+ * using palette for ANSI colours 0-15
+ */
+export function ansiToHtml(text: string, palette: string[] = DEFAULT_ANSI_PALETTE): string {
+  const lines: string[] = [];
+  let line = '';
+  let state: SgrState = {};
+
+  for (const token of text.split(TOKEN_PATTERN)) {
+    if (!token) continue;
+    if (token.startsWith('\x1b')) {
+      const sgr = SGR_PATTERN.exec(token);
+      if (sgr) state = applySgr(state, sgr[1], palette);
+      const spaces = cursorForwardSpaces(token);
+      if (spaces) line += renderSpan(spaces, state);
+      continue;
+    }
+    if (token === '\n' || token === '\r\n') {
+      lines.push(line);
+      line = '';
+    } else if (token === '\r') {
+      line = '';
+    } else if (token !== '\x08') {
+      line += renderSpan(token, state);
+    }
+  }
+  lines.push(line);
+
+  return lines.join('\n');
+}
+
+/** Spaces for the columns a cursor forward sequence skips, empty for other sequences */
+function cursorForwardSpaces(sequence: string): string {
+  const match = CURSOR_FORWARD_PATTERN.exec(sequence);
+  return match ? ' '.repeat(parseInt(match[1] || '1', 10)) : '';
+}
+
+function renderSpan(text: string, state: SgrState): string {
+  const escaped = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  const fg = state.inverse ? state.bg ?? 'var(--bg)' : state.fg;
+  const bg = state.inverse ? state.fg ?? 'var(--fg)' : state.bg;
+  const styles: string[] = [];
+  if (fg) styles.push(`color:${fg}`);
+  if (bg) styles.push(`background:${bg}`);
+  if (state.bold) styles.push('font-weight:bold');
+  if (state.dim) styles.push('opacity:0.6');
+  if (state.italic) styles.push('font-style:italic');
+  if (state.underline) styles.push('text-decoration:underline');
+
+  return styles.length ? `<span style="${styles.join(';')}">${escaped}</span>` : escaped;
+}
+
+function applySgr(previous: SgrState, params: string, palette: string[]): SgrState {
+  const state = { ...previous };
+  const codes = params === '' ? [0] : params.split(/[;:]/).map((p) => parseInt(p, 10) || 0);
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) {
+      Object.keys(state).forEach((key) => delete state[key as keyof SgrState]);
+    } else if (code === 1) state.bold = true;
+    else if (code === 2) state.dim = true;
+    else if (code === 3) state.italic = true;
+    else if (code === 4) state.underline = true;
+    else if (code === 7) state.inverse = true;
+    else if (code === 22) state.bold = state.dim = false;
+    else if (code === 23) state.italic = false;
+    else if (code === 24) state.underline = false;
+    else if (code === 27) state.inverse = false;
+    else if (code >= 30 && code <= 37) state.fg = palette[code - 30];
+    else if (code >= 90 && code <= 97) state.fg = palette[code - 90 + 8];
+    else if (code >= 40 && code <= 47) state.bg = palette[code - 40];
+    else if (code >= 100 && code <= 107) state.bg = palette[code - 100 + 8];
+    else if (code === 39) state.fg = undefined;
+    else if (code === 49) state.bg = undefined;
+    else if (code === 38 || code === 48) {
+      // Extended colour: 5;n for the 256 colour table, 2;r;g;b for true colour
+      let color: string | undefined;
+      if (codes[i + 1] === 5) {
+        color = xterm256Color(codes[i + 2], palette);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        color = `rgb(${codes[i + 2] ?? 0},${codes[i + 3] ?? 0},${codes[i + 4] ?? 0})`;
+        i += 4;
+      }
+      if (code === 38) state.fg = color;
+      else state.bg = color;
+    }
+  }
+
+  return state;
+}
+
+function xterm256Color(index: number | undefined, palette: string[]): string | undefined {
+  if (index === undefined || index < 0 || index > 255) return undefined;
+  if (index < 16) return palette[index];
+  if (index >= 232) {
+    const level = 8 + (index - 232) * 10;
+    return `rgb(${level},${level},${level})`;
+  }
+  const cube = index - 16;
+  const level = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+  return `rgb(${level(Math.floor(cube / 36))},${level(Math.floor(cube / 6) % 6)},${level(cube % 6)})`;
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SUBMIT_DELAY_MS } from '../constants';
+import { TabManager } from './tab-manager';
+import { TerminalManager } from './terminal-manager';
+import { WebviewMessenger } from './webview-messenger';
+
+interface TerminalItem extends vscode.QuickPickItem {
+  tabId: number;
+  terminalId: number;
+}
+
+/**
+ * Sends the same input to several terminals, either live while a tab is in
+ * broadcast mode or once through the broadcast command
+ */
+export class BroadcastService {
+  constructor(
+    private tabManager: TabManager,
+    private terminalManager: TerminalManager,
+    private messenger: WebviewMessenger
+  ) {}
+
+  /**
+   * Forward webview input, mirroring it to every receiving slot
+   * when it was typed into one of them
+   */
+  handleInput(tabId: number, terminalId: number, data: string): void {
+    const targets = this.tabManager.getTabState(tabId)?.broadcastTargets;
+    if (!targets || !targets.has(terminalId)) {
+      this.terminalManager.handleInput(tabId, terminalId, data);
+      return;
+    }
+    for (const target of targets) {
+      this.terminalManager.handleInput(tabId, target, data);
+    }
+  }
+
+  /**
+   * Turn broadcast mode of a tab off, or on for slots picked by the user
+   */
+  async toggle(tabId: number = this.tabManager.activeTabId): Promise<void> {
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState) return;
+
+    if (tabState.broadcastTargets) {
+      this.setTargets(tabId, undefined);
+      return;
+    }
+
+    const items = this.getTerminalItems(tabId);
+    if (items.length < 2) {
+      vscode.window.showInformationMessage(
+        `Broadcast needs at least two running terminals in Tab ${tabId}.`
+      );
+      return;
+    }
+    const selected = await vscode.window.showQuickPick(
+      items.map((item) => ({ ...item, picked: true })),
+      { canPickMany: true, placeHolder: `Terminals in Tab ${tabId} that receive typed input` }
+    );
+    if (!selected || selected.length === 0) return;
+
+    this.setTargets(tabId, new Set(selected.map((item) => item.terminalId)));
+  }
+
+  /**
+   * Ask for text and send it, followed by Enter, to the chosen terminals
+   */
+  async broadcast(): Promise<void> {
+    const allItems = this.getTerminalItems();
+    if (allItems.length === 0) {
+      vscode.window.showInformationMessage('No running terminals to broadcast to.');
+      return;
+    }
+
+    const text = await vscode.window.showInputBox({
+      prompt: 'Text to send to several terminals',
+      placeHolder: 'e.g. run the tests and fix failures',
+    });
+    if (!text) return;
+
+    const targets = await this.pickTargets(allItems);
+    if (!targets || targets.length === 0) return;
+
+    for (const { tabId, terminalId } of targets) {
+      this.terminalManager.handleInput(tabId, terminalId, text);
+    }
+    // Submit separately so agents do not treat the newline as part of a paste
+    setTimeout(() => {
+      for (const { tabId, terminalId } of targets) {
+        this.terminalManager.handleInput(tabId, terminalId, '\r');
+      }
+    }, SUBMIT_DELAY_MS);
+  }
+
+  /**
+   * Drop receiving slots whose terminal is gone, ending broadcast
+   * mode once fewer than two remain
+   */
+  prune(): void {
+    for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+      const targets = tabState.broadcastTargets;
+      if (!targets) continue;
+
+      const remaining = new Set(
+        Array.from(targets).filter((id) => tabState.ptyProcesses.has(id))
+      );
+      if (remaining.size === targets.size) continue;
+      this.setTargets(tabId, remaining.size > 1 ? remaining : undefined);
+    }
+  }
+
+  private async pickTargets(allItems: TerminalItem[]): Promise<TerminalItem[] | undefined> {
+    const activeTabId = this.tabManager.activeTabId;
+    const tabItems = allItems.filter((item) => item.tabId === activeTabId);
+    const tabTargets = this.tabManager.getTabState(activeTabId)?.broadcastTargets;
+    const defaultItems = tabTargets
+      ? tabItems.filter((item) => tabTargets.has(item.terminalId))
+      : tabItems;
+
+    const scopes: (vscode.QuickPickItem & { items?: TerminalItem[] })[] = [];
+    if (defaultItems.length > 0) {
+      scopes.push({
+        label: tabTargets ? `Broadcast slots of Tab ${activeTabId}` : `All terminals in Tab ${activeTabId}`,
+        description: `${defaultItems.length} terminal(s)`,
+        items: defaultItems,
+      });
+    }
+    if (allItems.length > tabItems.length) {
+      scopes.push({
+        label: 'Every tab',
+        description: `${allItems.length} terminal(s)`,
+        items: allItems,
+      });
+    }
+    scopes.push({ label: 'Choose terminals...' });
+
+    const scope = await vscode.window.showQuickPick(scopes, { placeHolder: 'Send to' });
+    if (!scope) return undefined;
+    if (scope.items) return scope.items;
+
+    return vscode.window.showQuickPick(
+      allItems.map((item) => ({
+        ...item,
+        picked: defaultItems.includes(item),
+      })),
+      { canPickMany: true, placeHolder: 'Terminals to send to' }
+    );
+  }
+
+  /** Running terminals, in one tab or across all tabs */
+  private getTerminalItems(onlyTabId?: number): TerminalItem[] {
+    const items: TerminalItem[] = [];
+    for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+      if (onlyTabId !== undefined && tabId !== onlyTabId) continue;
+      for (const [terminalId, projectPath] of tabState.terminalProjects) {
+        if (!tabState.ptyProcesses.has(terminalId)) continue;
+        items.push({
+          label: `Tab ${tabId} · Terminal ${terminalId + 1}`,
+          description: path.basename(projectPath),
+          tabId,
+          terminalId,
+        });
+      }
+    }
+    return items;
+  }
+
+  private setTargets(tabId: number, targets: Set<number> | undefined): void {
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState) return;
+
+    tabState.broadcastTargets = targets;
+    this.messenger.sendBroadcast(tabId, targets ? Array.from(targets) : []);
+  }
+}
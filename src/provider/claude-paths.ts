@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { PROJECT_DIR_MISS_TTL_MS, SESSION_READ_CHUNK_BYTES } from '../constants';
+
+/** Project directories found by the cwd fallback, keyed by normalized project path */
+const resolvedDirs = new Map<string, string>();
+
+/**
+ * When the cwd fallback last found nothing, keyed like resolvedDirs, so
+ * callers polling for a new session do not rescan every project each time
+ */
+const missedScans = new Map<string, number>();
+
+/**
+ * Claude's config directory: the quadTerminal.claudeConfigDir setting,
+ * then CLAUDE_CONFIG_DIR, then ~/.claude
+ */
+export function getClaudeConfigDir(): string {
+  const configured = vscode.workspace
+    .getConfiguration('quadTerminal')
+    .get<string>('claudeConfigDir', '')
+    .trim();
+  return expandHome(configured || process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude'));
+}
+
+/** Directory holding one session directory per project */
+export function getClaudeProjectsDir(): string {
+  return path.join(getClaudeConfigDir(), 'projects');
+}
+
+/**
+ * Encode a project path the way the Claude CLI names its project directory:
+ * every character other than an ASCII letter or digit becomes a dash.
+ *   /Users/foo/my_app.v2  -> -Users-foo-my-app-v2
+ *   C:\Users\foo\My App   -> C--Users-foo-My-App
+ */
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Find the Claude session directory of a project. Falls back to scanning
+ * every project directory for sessions whose recorded cwd is the project,
+ * for paths the encoding does not reproduce. A scan that found nothing is
+ * not repeated for PROJECT_DIR_MISS_TTL_MS.
+ * @param projectsDir Directory holding the project directories, defaults to Claude's
+ */
+export async function findProjectDir(
+  projectPath: string,
+  projectsDir: string = getClaudeProjectsDir()
+): Promise<string | undefined> {
+  const encodedDir = path.join(projectsDir, encodeProjectPath(projectPath));
+  if (fs.existsSync(encodedDir)) {
+    return encodedDir;
+  }
+
+  const key = `${projectsDir}\0${normalizeProjectPath(projectPath)}`;
+  const cached = resolvedDirs.get(key);
+  if (cached && fs.existsSync(cached)) {
+    return cached;
+  }
+  const missedAt = missedScans.get(key);
+  if (missedAt !== undefined && Date.now() - missedAt < PROJECT_DIR_MISS_TTL_MS) {
+    return undefined;
+  }
+
+  let dirs: string[];
+  try {
+    dirs = await fs.promises.readdir(projectsDir);
+  } catch {
+    missedScans.set(key, Date.now());
+    return undefined;
+  }
+
+  const normalized = normalizeProjectPath(projectPath);
+  for (const dir of dirs) {
+    const candidate = path.join(projectsDir, dir);
+    const cwd = await readRecordedCwd(candidate);
+    if (cwd && normalizeProjectPath(cwd) === normalized) {
+      resolvedDirs.set(key, candidate);
+      missedScans.delete(key);
+      return candidate;
+    }
+  }
+  missedScans.set(key, Date.now());
+  return undefined;
+}
+
+/**
+ * Replace a leading "~" with the home directory
+ */
+export function expandHome(p: string): string {
+  return p === '~' || /^~[\\/]/.test(p) ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+/**
+ * Key comparing project paths: trailing separators are ignored, and case
+ * on Windows and macOS, whose file systems fold case by default
+ */
+export function normalizeProjectPath(p: string, platform: NodeJS.Platform = process.platform): string {
+  const pathApi = platform === 'win32' ? path.win32 : path.posix;
+  const resolved = pathApi.resolve(p).replace(/[\\/]+$/, '');
+  return platform === 'win32' || platform === 'darwin' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * The cwd recorded in the most recent session of a project directory,
+ * read from the first chunk of the file
+ */
+async function readRecordedCwd(projectDir: string): Promise<string | undefined> {
+  let newest: { file: string; mtimeMs: number } | undefined;
+  try {
+    for (const file of await fs.promises.readdir(projectDir)) {
+      if (!file.endsWith('.jsonl')) continue;
+      const { mtimeMs } = await fs.promises.stat(path.join(projectDir, file));
+      if (!newest || mtimeMs > newest.mtimeMs) newest = { file, mtimeMs };
+    }
+  } catch {
+    return undefined;
+  }
+  if (!newest) return undefined;
+
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(path.join(projectDir, newest.file), 'r');
+    const buffer = Buffer.alloc(SESSION_READ_CHUNK_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    for (const line of buffer.subarray(0, bytesRead).toString('utf-8').split('\n')) {
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry.cwd === 'string') return entry.cwd;
+      } catch {
+        // Skip partial or invalid lines
+      }
+    }
+  } catch {
+    // Unreadable session file
+  } finally {
+    await handle?.close();
+  }
+  return undefined;
+}
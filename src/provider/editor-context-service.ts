@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TabManager } from './tab-manager';
+import { WebviewMessenger } from './webview-messenger';
+import { PickedTerminal, pickTerminal } from './terminal-picker';
+
+/**
+ * Sends editor selections and file references from the editor and the
+ * explorer to a terminal, as if the user pasted them
+ */
+export class EditorContextService {
+  constructor(
+    private tabManager: TabManager,
+    private messenger: WebviewMessenger,
+    private getLastFocused: () => PickedTerminal | undefined
+  ) {}
+
+  /**
+   * Paste the active editor's selected text into a terminal
+   */
+  async sendSelection(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const text = editor?.selections
+      .filter((selection) => !selection.isEmpty)
+      .map((selection) => editor.document.getText(selection))
+      .join('\n');
+    if (!text) {
+      vscode.window.showInformationMessage('Select some text to send to a terminal.');
+      return;
+    }
+
+    const target = await this.pickTarget('Select a terminal to send the selection to');
+    if (target) {
+      await this.paste(target, text);
+    }
+  }
+
+  /**
+   * Paste @path references into a terminal, relative to the terminal's
+   * project. A file open in the active editor is referenced with its
+   * selected lines, e.g. @src/app.ts#L10-20.
+   * @param uri File the command was run on, defaults to the active editor's
+   * @param uris Every file selected in the explorer
+   */
+  async sendFileReference(uri?: vscode.Uri, uris?: vscode.Uri[]): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const files = uris && uris.length > 0 ? uris : uri ? [uri] : editor ? [editor.document.uri] : [];
+    const paths = files.filter((file) => file.scheme === 'file').map((file) => file.fsPath);
+    if (paths.length === 0) {
+      vscode.window.showInformationMessage('Open or select a file to reference in a terminal.');
+      return;
+    }
+
+    const target = await this.pickTarget('Select a terminal to send the file reference to');
+    if (!target) return;
+
+    const projectPath = this.tabManager.getTabState(target.tabId)?.terminalProjects.get(target.terminalId);
+    const references = paths.map((filePath) => {
+      const lines =
+        editor && editor.document.uri.fsPath === filePath ? this.getLineRange(editor.selection) : '';
+      return this.formatReference(filePath, projectPath, lines);
+    });
+    await this.paste(target, `${references.join(' ')} `);
+  }
+
+  /** Pick a running terminal, the last focused one first */
+  private pickTarget(placeHolder: string): Promise<PickedTerminal | undefined> {
+    return pickTerminal(this.tabManager, placeHolder, undefined, this.getLastFocused());
+  }
+
+  /** Show the grid on the terminal's tab and paste the text into it */
+  private async paste(target: PickedTerminal, text: string): Promise<void> {
+    await vscode.commands.executeCommand('quadTerminal.grid.focus');
+    this.tabManager.switchTab(target.tabId);
+    this.messenger.sendPasteText(target.tabId, target.terminalId, text);
+  }
+
+  /**
+   * "#L10" or "#L10-20" for the lines of a selection, nothing when it is
+   * empty. A selection ending at the start of a line does not include it.
+   */
+  private getLineRange(selection: vscode.Selection): string {
+    if (selection.isEmpty) return '';
+    const start = selection.start.line + 1;
+    let end = selection.end.line + 1;
+    if (selection.end.character === 0 && end > start) end--;
+    return start === end ? `#L${start}` : `#L${start}-${end}`;
+  }
+
+  /**
+   * @path reference to a file, relative to the project when it is inside,
+   * quoted when it contains spaces
+   */
+  private formatReference(filePath: string, projectPath: string | undefined, lines: string): string {
+    const relative = projectPath ? path.relative(projectPath, filePath) : '';
+    const shown =
+      relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+        ? relative.split(path.sep).join('/')
+        : filePath;
+    const reference = `@${shown}${lines}`;
+    return reference.includes(' ') ? `"${reference}"` : reference;
+  }
+}
@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectEnvironment, ShellLaunch } from '../types';
+import { PROJECT_CONFIG_FILE } from '../constants';
+import { expandHome, normalizeProjectPath } from './claude-paths';
+
+/**
+ * Entry of VS Code's terminal.integrated.profiles.<platform> setting
+ */
+interface VSCodeTerminalProfile {
+  path?: string | string[];
+  args?: string | string[];
+  env?: Record<string, string | null>;
+  source?: string;
+}
+
+/** Shells tried when neither VS Code nor the environment names one */
+const FALLBACK_SHELLS = ['/bin/bash', '/bin/sh'];
+
+/**
+ * Apply environment overrides to a base environment, null removes a variable
+ */
+export function applyEnv(
+  env: { [key: string]: string | undefined },
+  overrides: Record<string, string | null> | undefined
+): { [key: string]: string | undefined } {
+  const result = { ...env };
+  for (const [key, value] of Object.entries(overrides || {})) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse a dotenv file: KEY=value lines with optional "export", quotes and comments
+ */
+export function parseDotenv(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = /^(?:export\s+)?([A-Za-z_][\w.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const [, key, rawValue] = match;
+
+    let value: string;
+    const quote = rawValue[0];
+    if ((quote === '"' || quote === "'") && rawValue.indexOf(quote, 1) > 0) {
+      value = rawValue.slice(1, rawValue.indexOf(quote, 1));
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t');
+      }
+    } else {
+      value = rawValue.replace(/\s+#.*$/, '').trim();
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Join commands into one line for a shell, later commands only run when
+ * the ones before them succeed. PowerShell 5 has no &&, so each command
+ * after the first is wrapped in if ($?) { ... }.
+ */
+export function joinCommands(commands: string[], shell: string): string {
+  if (/^(?:pwsh|powershell)(?:\.exe)?$/i.test(path.win32.basename(shell))) {
+    return commands.reduceRight((rest, command) => `${command}; if ($?) { ${rest} }`);
+  }
+  // POSIX shells, fish and cmd.exe all chain with &&
+  return commands.join(' && ');
+}
+
+/**
+ * Resolves the shell, environment and startup commands of a project's
+ * terminals from VS Code's default terminal profile, the
+ * quadTerminal.projectEnvironments setting and the project's .quadterminal.json
+ */
+export class EnvironmentService {
+  /** Project files already reported as ignored in an untrusted workspace */
+  private ignoredFiles = new Set<string>();
+
+  /**
+   * Shell launch for a terminal started in a directory
+   * @param cwd Directory the terminal starts in
+   * @param projectPath Project the terminal belongs to, differs from cwd for worktrees
+   */
+  getLaunch(cwd: string, projectPath: string = cwd): ShellLaunch {
+    const roots = Array.from(new Set([cwd, projectPath]));
+    const project = this.getProjectEnvironment(roots);
+    const defaultShell = this.getDefaultShell();
+
+    // Create clean environment without Claude Code specific variables
+    // that might cause conflicts when running multiple Claude instances
+    let env: { [key: string]: string | undefined } = { ...process.env };
+    delete env.CLAUDECODE;
+    delete env.CLAUDE_CODE_ENTRYPOINT;
+    delete env.CLAUDE_CODE_SESSION;
+    delete env.VSCODE_GIT_IPC_HANDLE;
+
+    if (!project.shell) {
+      env = applyEnv(env, defaultShell.env);
+    }
+    if (project.envFile) {
+      env = applyEnv(env, this.readEnvFile(roots, project.envFile));
+    }
+    env = applyEnv(env, project.env);
+
+    return {
+      shell: project.shell ?? defaultShell.shell,
+      args: project.shell ? project.shellArgs ?? [] : project.shellArgs ?? defaultShell.args,
+      env,
+      preLaunchCommands: (project.preLaunchCommands ?? []).filter(
+        (command) => typeof command === 'string' && command.trim()
+      ),
+    };
+  }
+
+  /**
+   * Merge the "*" entry and the project's entry of the projectEnvironments
+   * setting with the project's .quadterminal.json, later ones winning.
+   * Environment variables are merged one by one.
+   */
+  private getProjectEnvironment(roots: string[]): ProjectEnvironment {
+    const layers: ProjectEnvironment[] = [];
+    const configured = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<Record<string, ProjectEnvironment>>('projectEnvironments', {});
+    if (configured && typeof configured === 'object') {
+      if (configured['*']) layers.push(configured['*']);
+      const keys = new Set(roots.map((root) => normalizeProjectPath(root)));
+      for (const [key, value] of Object.entries(configured)) {
+        if (key !== '*' && keys.has(normalizeProjectPath(this.resolvePath(key)))) layers.push(value);
+      }
+    }
+    const file = this.readProjectFile(roots);
+    if (file) layers.push(file);
+
+    const result: ProjectEnvironment = {};
+    for (const layer of layers) {
+      if (!layer || typeof layer !== 'object') continue;
+      const { env, ...rest } = layer;
+      Object.assign(result, rest);
+      if (env && typeof env === 'object') result.env = { ...result.env, ...env };
+    }
+    return result;
+  }
+
+  /**
+   * The first .quadterminal.json found in the given directories. Its shell
+   * and commands come from whoever wrote the project, so it is only read
+   * in a trusted workspace.
+   */
+  private readProjectFile(roots: string[]): ProjectEnvironment | undefined {
+    for (const root of roots) {
+      const filePath = path.join(root, PROJECT_CONFIG_FILE);
+      if (!fs.existsSync(filePath)) continue;
+      if (!vscode.workspace.isTrusted) {
+        if (!this.ignoredFiles.has(filePath)) {
+          this.ignoredFiles.add(filePath);
+          vscode.window.showWarningMessage(
+            `Ignoring ${filePath} because the workspace is not trusted.`
+          );
+        }
+        return undefined;
+      }
+      try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error('expected an object');
+        }
+        return parsed as ProjectEnvironment;
+      } catch (error) {
+        console.warn('[EnvironmentService] Invalid project file', filePath, error);
+        vscode.window.showWarningMessage(
+          `Ignoring ${filePath}: ${(error as Error).message}`
+        );
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /** Variables of a dotenv file, looked up in the given directories */
+  private readEnvFile(roots: string[], envFile: string): Record<string, string> {
+    const expanded = expandHome(envFile);
+    const filePath = roots
+      .map((root) => path.resolve(root, expanded))
+      .find((candidate) => fs.existsSync(candidate));
+    if (!filePath) {
+      vscode.window.showWarningMessage(`Environment file ${envFile} was not found in ${roots[0]}.`);
+      return {};
+    }
+    try {
+      return parseDotenv(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      vscode.window.showWarningMessage(`Failed to read ${filePath}: ${(error as Error).message}`);
+      return {};
+    }
+  }
+
+  /**
+   * Shell of VS Code's default terminal profile for this platform, falling
+   * back to $SHELL, the login shell and finally bash or sh
+   */
+  private getDefaultShell(): { shell: string; args: string[]; env?: Record<string, string | null> } {
+    const platform = os.platform();
+    const platformKey = platform === 'win32' ? 'windows' : platform === 'darwin' ? 'osx' : 'linux';
+    const terminalConfig = vscode.workspace.getConfiguration('terminal.integrated');
+    const profileName = terminalConfig.get<string | null>(`defaultProfile.${platformKey}`);
+
+    if (profileName) {
+      const profiles = terminalConfig.get<Record<string, VSCodeTerminalProfile | null>>(
+        `profiles.${platformKey}`,
+        {}
+      );
+      const profile = profiles?.[profileName];
+      const shell = profile ? this.getProfileShell(profile) : undefined;
+      if (shell) {
+        const args = typeof profile?.args === 'string' ? [profile.args] : profile?.args ?? [];
+        return { shell, args, env: profile?.env };
+      }
+      // Built-in profiles such as "bash" or "zsh" are named after their executable
+      if (!profile && /^[\w.-]+$/.test(profileName)) {
+        return { shell: profileName, args: [] };
+      }
+    }
+
+    if (platform === 'win32') {
+      return { shell: 'powershell.exe', args: [] };
+    }
+    let loginShell: string | undefined;
+    try {
+      loginShell = os.userInfo().shell ?? undefined;
+    } catch {
+      // No passwd entry for the user
+    }
+    const shell =
+      [process.env.SHELL, loginShell].find((s) => s && fs.existsSync(s)) ??
+      FALLBACK_SHELLS.find((s) => fs.existsSync(s)) ??
+      'sh';
+    return { shell, args: [] };
+  }
+
+  /** Executable of a VS Code terminal profile, the first of its paths that exists */
+  private getProfileShell(profile: VSCodeTerminalProfile): string | undefined {
+    if (profile.source === 'PowerShell') return 'powershell.exe';
+    const paths = Array.isArray(profile.path) ? profile.path : profile.path ? [profile.path] : [];
+    return paths.find((p) => !path.isAbsolute(p) || fs.existsSync(p));
+  }
+
+  /** Resolve a setting path: "~" is the home directory, relative paths start at the first workspace folder */
+  private resolvePath(configured: string): string {
+    const base = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+    return path.resolve(base, expandHome(configured));
+  }
+}
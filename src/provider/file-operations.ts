@@ -3,11 +3,14 @@ import * as path from 'path';
 import { DropData } from '../types';
 import { TabManager } from './tab-manager';
 import { WebviewMessenger } from './webview-messenger';
+import { LinkResolver, parseFileLink } from './link-resolver';
 
 /**
- * Handles file-related operations: drop resolution, file picker, open file
+ * Handles file-related operations: drop resolution, file picker, opening file links
  */
 export class FileOperations {
+  private linkResolver = new LinkResolver();
+
   constructor(
     private tabManager: TabManager,
     private messenger: WebviewMessenger
@@ -107,31 +110,35 @@ export class FileOperations {
   }
 
   /**
-   * Open a file in VS Code editor
+   * Open the file a link in a terminal points to, at its line and column.
+   * Tells the user when the file cannot be found.
+   * @param text Link text as shown in the terminal, e.g. src/app.ts:10:5
    */
-  async openFileInEditor(
-    filePath: string,
-    line?: number,
-    column?: number,
-    tabId?: number,
-    terminalId?: number
-  ): Promise<void> {
+  async openFileInEditor(text: string, tabId?: number, terminalId?: number): Promise<void> {
+    const link = parseFileLink(text);
+    if (!link) {
+      vscode.window.showWarningMessage(`"${text}" is not a file path.`);
+      return;
+    }
+
+    // Resolve relative paths using the terminal's working directory
+    const cwd =
+      tabId !== undefined && terminalId !== undefined
+        ? this.tabManager.getTabState(tabId)?.terminalProjects.get(terminalId)
+        : undefined;
+    const uri = await this.linkResolver.resolve(link, cwd);
+    if (!uri) {
+      const where = cwd ? `${path.basename(cwd)} or the workspace` : 'the workspace';
+      vscode.window.showWarningMessage(`Could not find ${link.path} in ${where}.`);
+      return;
+    }
+
     try {
-      // Resolve relative paths using the terminal's working directory
-      let absolutePath = filePath;
-      if (
-        !path.isAbsolute(filePath) &&
-        tabId !== undefined &&
-        terminalId !== undefined
-      ) {
-        const tabState = this.tabManager.getTabState(tabId);
-        const projectPath = tabState?.terminalProjects.get(terminalId);
-        if (projectPath) {
-          absolutePath = path.join(projectPath, filePath);
-        }
+      if ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) {
+        await vscode.commands.executeCommand('revealInExplorer', uri);
+        return;
       }
 
-      const uri = vscode.Uri.file(absolutePath);
       const doc = await vscode.workspace.openTextDocument(uri);
       const editor = await vscode.window.showTextDocument(doc, {
         preview: false,
@@ -139,9 +146,9 @@ export class FileOperations {
       });
 
       // Navigate to line and column if specified
-      if (line !== undefined && line > 0) {
-        const lineIndex = line - 1; // VS Code uses 0-based line numbers
-        const colIndex = column !== undefined && column > 0 ? column - 1 : 0;
+      if (link.line !== undefined && link.line > 0) {
+        const lineIndex = link.line - 1; // VS Code uses 0-based line numbers
+        const colIndex = link.column !== undefined && link.column > 0 ? link.column - 1 : 0;
         const position = new vscode.Position(lineIndex, colIndex);
         editor.selection = new vscode.Selection(position, position);
         editor.revealRange(
@@ -150,7 +157,8 @@ export class FileOperations {
         );
       }
     } catch (error) {
-      console.error(`[QuadTerminal] Failed to open file: ${filePath}`, error);
+      console.error(`[QuadTerminal] Failed to open file: ${uri.fsPath}`, error);
+      vscode.window.showErrorMessage(`Failed to open ${uri.fsPath}: ${(error as Error).message}`);
     }
   }
 
@@ -0,0 +1,86 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Output git may print for large diffs and status listings */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Counter keeping temporary index files of concurrent snapshots apart */
+let snapshotCount = 0;
+
+function execGit(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, env, maxBuffer: GIT_MAX_BUFFER }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Run git in a directory, resolving to its output without the trailing
+ * newline. Rejects with git's error output when it fails.
+ */
+export async function runGit(
+  cwd: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv
+): Promise<string> {
+  return (await execGit(cwd, args, env)).replace(/\r?\n$/, '');
+}
+
+/**
+ * Top level of the working tree containing a directory, or undefined
+ * when it is not in a git repository or git is not installed
+ */
+export async function getRepoRoot(cwd: string): Promise<string | undefined> {
+  try {
+    return await runGit(cwd, ['rev-parse', '--show-toplevel']);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write the whole working tree, untracked files included, as a tree object
+ * without touching the repository's index. Blobs of untracked files are
+ * added to the object database, git gc removes them once unreferenced.
+ * @returns The tree's object id
+ */
+export async function writeWorkingTree(repoRoot: string): Promise<string> {
+  const indexPath = path.resolve(
+    repoRoot,
+    await runGit(repoRoot, ['rev-parse', '--git-path', 'index'])
+  );
+  const tempIndex = path.join(
+    os.tmpdir(),
+    `quad-terminal-index-${process.pid}-${Date.now()}-${snapshotCount++}`
+  );
+
+  try {
+    // Starting from the real index lets git reuse the hashes of unchanged files
+    if (fs.existsSync(indexPath)) {
+      await fs.promises.copyFile(indexPath, tempIndex);
+    }
+    const env = { ...process.env, GIT_INDEX_FILE: tempIndex };
+    await runGit(repoRoot, ['add', '--all'], env);
+    return await runGit(repoRoot, ['write-tree'], env);
+  } finally {
+    await fs.promises.rm(tempIndex, { force: true });
+  }
+}
+
+/**
+ * Content of a file in a tree object, empty when the tree does not have it
+ */
+export async function readFileAt(repoRoot: string, tree: string, filePath: string): Promise<string> {
+  try {
+    return await execGit(repoRoot, ['show', `${tree}:${filePath}`]);
+  } catch {
+    return '';
+  }
+}
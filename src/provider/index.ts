@@ -1,12 +1,50 @@
 import * as vscode from 'vscode';
-import { WebviewToExtensionMessage } from '../types';
-import { isValidTerminalId } from '../constants';
+import * as fs from 'fs';
+import {
+  GridLayout,
+  QuadTerminalApi,
+  SavedLayout,
+  SavedTerminal,
+  SplitRatios,
+  StartInSlotOptions,
+  TabState,
+  TerminalInfo,
+  TerminalLaunchOptions,
+  TerminalRef,
+  WebviewToExtensionMessage,
+  Worktree,
+} from '../types';
+import {
+  API_PROMPT_TIMEOUT_MS,
+  API_VIEW_READY_TIMEOUT_MS,
+  GRID_LAYOUTS,
+  SUBMIT_DELAY_MS,
+  getSlotCount,
+  isValidTerminalId,
+} from '../constants';
 import { WebviewMessenger } from './webview-messenger';
 import { TabManager } from './tab-manager';
 import { ConfigService } from './config-service';
+import { ProjectService } from './project-service';
 import { TerminalManager } from './terminal-manager';
 import { FileOperations } from './file-operations';
 import { SessionService } from './session-service';
+import { PersistenceService } from './persistence-service';
+import { ProfileService } from './profile-service';
+import { EnvironmentService } from './environment-service';
+import { OutputPipeline } from './output-pipeline';
+import { PtyHostClient } from './pty-host-client';
+import { NotificationService } from './notification-service';
+import { TranscriptService } from './transcript-service';
+import { BroadcastService } from './broadcast-service';
+import { SearchService } from './search-service';
+import { SessionBrowser } from './session-browser';
+import { UsageService } from './usage-service';
+import { SessionTracker } from './session-tracker';
+import { WorktreeService } from './worktree-service';
+import { ReviewService } from './review-service';
+import { pickTerminal } from './terminal-picker';
+import { EditorContextService } from './editor-context-service';
 import { getWebviewHtml } from './webview-html';
 
 /**
@@ -17,11 +55,35 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
   private messenger: WebviewMessenger;
   private tabManager: TabManager;
   private configService: ConfigService;
+  private projectService: ProjectService;
+  private outputPipeline: OutputPipeline;
+  private ptyHost: PtyHostClient;
   private terminalManager: TerminalManager;
   private fileOperations: FileOperations;
   private sessionService: SessionService;
+  private sessionBrowser: SessionBrowser;
+  private persistenceService: PersistenceService;
+  private profileService: ProfileService;
+  private notificationService: NotificationService;
+  private transcriptService: TranscriptService;
+  private broadcastService: BroadcastService;
+  private searchService: SearchService;
+  private usageService: UsageService;
+  private sessionTracker: SessionTracker;
+  private worktreeService: WorktreeService;
+  private reviewService: ReviewService;
+  private editorContextService: EditorContextService;
+  private readonly _extensionUri: vscode.Uri;
+  /** Whether the saved layout should be restored once the webview is ready */
+  private pendingRestore = false;
+  /** Settles once the webview is ready and the saved layout was restored */
+  private viewReady!: Promise<void>;
+  private resolveViewReady!: () => void;
+
+  constructor(context: vscode.ExtensionContext) {
+    this._extensionUri = context.extensionUri;
+    this.resetViewReady();
 
-  constructor(private readonly _extensionUri: vscode.Uri) {
     // Initialize messenger with getter for view
     this.messenger = new WebviewMessenger(() => this._view);
 
@@ -31,14 +93,103 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
     // Initialize config service
     this.configService = new ConfigService();
 
+    // Initialize projects offered for new terminals
+    this.projectService = new ProjectService(context.workspaceState, this.configService);
+
+    // Initialize launch profiles
+    this.profileService = new ProfileService(context.workspaceState);
+
+    // Initialize batched output with flow control
+    this.outputPipeline = new OutputPipeline(this.messenger);
+
+    // Run terminals in the pty host so they survive extension host restarts,
+    // connecting early so restored terminals do not wait for it
+    this.ptyHost = new PtyHostClient(context.storageUri?.fsPath ?? vscode.env.sessionId);
+    this.ptyHost.ready();
+
     // Initialize terminal manager
-    this.terminalManager = new TerminalManager(this.tabManager, this.messenger);
+    this.terminalManager = new TerminalManager(
+      this.tabManager,
+      this.messenger,
+      this.profileService,
+      new EnvironmentService(),
+      this.outputPipeline,
+      this.ptyHost
+    );
 
     // Initialize file operations
     this.fileOperations = new FileOperations(this.tabManager, this.messenger);
 
+    // Initialize transcript export
+    this.transcriptService = new TranscriptService(
+      this.tabManager,
+      this.configService,
+      this.messenger,
+      () => this._view
+    );
+
+    // Initialize broadcast input
+    this.broadcastService = new BroadcastService(
+      this.tabManager,
+      this.terminalManager,
+      this.messenger
+    );
+    this.tabManager.onDidChangeLayout(() => {
+      this.broadcastService.prune();
+    });
+
+    // Initialize search across terminals
+    this.searchService = new SearchService(this.tabManager, this.messenger, () => this._view);
+
     // Initialize session service
-    this.sessionService = new SessionService();
+    this.sessionService = new SessionService(context.globalStorageUri.fsPath);
+    this.sessionBrowser = new SessionBrowser(this.sessionService, (sessionId) =>
+      this.tabManager.isSessionInUse(sessionId)
+    );
+
+    // Start terminals in their own git worktrees
+    this.worktreeService = new WorktreeService();
+
+    // Review what each terminal changed in its repository
+    this.reviewService = new ReviewService(this.tabManager, this.terminalManager, context.workspaceState);
+
+    // Bind terminals to the sessions they run
+    this.sessionTracker = new SessionTracker(
+      this.tabManager,
+      this.terminalManager,
+      this.sessionService,
+      this.messenger
+    );
+
+    // Track token usage of running Claude sessions
+    this.usageService = new UsageService(this.tabManager, this.sessionService, this.messenger);
+
+    // Notify about terminals that need attention
+    this.notificationService = new NotificationService(
+      this.tabManager,
+      this.messenger,
+      () => this._view
+    );
+    this.terminalManager.onDidChangeStatus((change) => {
+      this.notificationService.handleStatusChange(change);
+    });
+    this.tabManager.onDidChangeLayout(() => {
+      this.notificationService.prune();
+    });
+
+    // Send editor selections and file references to terminals
+    this.editorContextService = new EditorContextService(this.tabManager, this.messenger, () =>
+      this.notificationService.getLastFocusedTerminal()
+    );
+
+    // Save the layout to workspace state whenever it changes
+    this.persistenceService = new PersistenceService(context.workspaceState);
+    this.tabManager.onDidChangeLayout(() => {
+      this.persistenceService.save(
+        this.tabManager.getAllTabs(),
+        this.tabManager.activeTabId
+      );
+    });
   }
 
   public resolveWebviewView(
@@ -50,6 +201,7 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
 
     // Initialize first tab
     this.tabManager.initializeFirstTab();
+    this.pendingRestore = true;
 
     webviewView.webview.options = {
       enableScripts: true,
@@ -82,7 +234,9 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
     webviewView.onDidDispose(() => {
       workspaceFolderListener.dispose();
       themeChangeListener.dispose();
+      this.sessionService.unwatchProject();
       this.disposeAllResources();
+      this.resetViewReady();
     });
   }
 
@@ -91,19 +245,32 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
 
     switch (message.command) {
       case 'ready':
+        // A rebuilt webview never acknowledges what the old one was sent
+        this.outputPipeline.resetFlowControl();
         this.sendProjectsToWebview();
         this.sendTerminalConfig();
+        this.replayTerminals();
+        if (this.pendingRestore) {
+          this.pendingRestore = false;
+          this.restoreLayout().finally(() => this.resolveViewReady());
+        } else {
+          this.resolveViewReady();
+        }
         break;
 
       case 'selectProject':
         if (isValidTerminalId(message.terminalId)) {
           const tabId = message.tabId || activeTabId;
+          this.projectService.rememberProject(message.projectPath);
           this.terminalManager.startTerminal(
             tabId,
             message.terminalId,
             message.projectPath,
-            message.sessionId,
-            message.skipClaude
+            {
+              sessionId: message.sessionId,
+              skipClaude: message.skipClaude,
+              profileName: message.profile,
+            }
           );
         }
         break;
@@ -111,7 +278,17 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
       case 'input':
         if (isValidTerminalId(message.terminalId)) {
           const tabId = message.tabId || activeTabId;
-          this.terminalManager.handleInput(tabId, message.terminalId, message.data);
+          this.broadcastService.handleInput(tabId, message.terminalId, message.data);
+        }
+        break;
+
+      case 'outputAck':
+        if (isValidTerminalId(message.terminalId)) {
+          this.outputPipeline.acknowledge(
+            message.tabId || activeTabId,
+            message.terminalId,
+            message.length
+          );
         }
         break;
 
@@ -129,8 +306,7 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
 
       case 'kill':
         if (isValidTerminalId(message.terminalId)) {
-          const tabId = message.tabId || activeTabId;
-          this.terminalManager.killTerminal(tabId, message.terminalId);
+          this.killTerminal(message.tabId || activeTabId, message.terminalId);
         }
         break;
 
@@ -141,6 +317,31 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
         }
         break;
 
+      case 'exportTranscript':
+        if (isValidTerminalId(message.terminalId)) {
+          const tabId = message.tabId || activeTabId;
+          this.transcriptService.exportTranscript(tabId, message.terminalId);
+        }
+        break;
+
+      case 'reviewChanges':
+        if (isValidTerminalId(message.terminalId)) {
+          this.reviewService.reviewChanges(message.tabId || activeTabId, message.terminalId);
+        }
+        break;
+
+      case 'toggleBroadcast':
+        this.broadcastService.toggle(message.tabId || activeTabId);
+        break;
+
+      case 'searchResults':
+        this.searchService.handleResults(message.requestId, message.matches);
+        break;
+
+      case 'terminalSerialized':
+        this.transcriptService.handleSerialized(message.requestId, message.data);
+        break;
+
       case 'resolveDrop':
         if (isValidTerminalId(message.terminalId)) {
           const tabId = message.tabId || activeTabId;
@@ -149,13 +350,7 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
         break;
 
       case 'openFile':
-        this.fileOperations.openFileInEditor(
-          message.filePath,
-          message.line,
-          message.column,
-          message.tabId,
-          message.terminalId
-        );
+        this.fileOperations.openFileInEditor(message.text, message.tabId, message.terminalId);
         break;
 
       case 'openUrl':
@@ -179,12 +374,11 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
 
       case 'switchTab':
         this.tabManager.switchTab(message.tabId);
+        this.notificationService.markTabSeen(message.tabId);
         break;
 
       case 'closeTab':
-        this.tabManager.closeTab(message.tabId, (tabId) => {
-          this.terminalManager.cleanupAllTerminalsInTab(tabId);
-        });
+        this.closeTab(message.tabId);
         break;
 
       case 'getSessions':
@@ -194,115 +388,391 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
       case 'showProjectPicker':
         this.showProjectPicker();
         break;
+
+      case 'terminalFocus':
+        this.notificationService.setFocusedTerminal(message.tabId, message.terminalId);
+        break;
+
+      case 'setSplitRatios':
+        if (this.isValidSplitRatios(message.splitRatios)) {
+          this.tabManager.setSplitRatios(message.tabId, message.splitRatios);
+        }
+        break;
+
+      case 'showLayoutPicker':
+        this.changeLayout(message.tabId);
+        break;
     }
   }
 
   private async showProjectPicker(): Promise<void> {
-    const projects = this.configService.getWorkspaceProjects();
+    const selectedProject = await this.projectService.pickProject('Select a project');
+    if (!selectedProject) return;
+
+    const projectPath = selectedProject.path;
+    const profileName = await this.pickLaunchProfile(projectPath);
+    if (profileName === undefined) return;
+
+    const choice = await this.sessionBrowser.pickLaunch(
+      projectPath,
+      selectedProject.name,
+      await this.worktreeService.isGitProject(projectPath)
+    );
+    if (!choice) return;
+
+    const worktree =
+      choice.kind === 'new' && choice.worktree
+        ? await this.worktreeService.createWorktree(projectPath)
+        : undefined;
+    if (choice.kind === 'new' && choice.worktree && !worktree) return;
+
+    const skipClaude = choice.kind === 'empty';
+    if (!skipClaude) {
+      this.profileService.rememberProfile(projectPath, profileName);
+    }
+
+    this.startInFreeSlot(
+      worktree ? this.worktreeService.getCwd(worktree) : projectPath,
+      selectedProject.name,
+      {
+        sessionId: choice.kind === 'resume' ? choice.sessionId : undefined,
+        forkSession: choice.kind === 'resume' && choice.fork,
+        skipClaude,
+        profileName,
+        worktree,
+      }
+    );
+  }
+
+  /**
+   * Kill a terminal, then ask what to do with its worktree if it had one
+   */
+  private killTerminal(tabId: number, terminalId: number): void {
+    const worktree = this.tabManager.getTabState(tabId)?.terminalWorktrees.get(terminalId);
+    this.terminalManager.killTerminal(tabId, terminalId);
+    if (worktree) {
+      this.worktreeService.offerCleanup(worktree);
+    }
+  }
+
+  /**
+   * Close a tab, then ask what to do with the worktrees of its terminals
+   */
+  private async closeTab(tabId: number): Promise<void> {
+    const worktrees: Worktree[] = [];
+    await this.tabManager.closeTab(tabId, (id) => {
+      const tabState = this.tabManager.getTabState(id);
+      if (tabState) worktrees.push(...tabState.terminalWorktrees.values());
+      this.terminalManager.cleanupAllTerminalsInTab(id);
+    });
+    for (const worktree of worktrees) {
+      await this.worktreeService.offerCleanup(worktree);
+    }
+  }
+
+  /**
+   * Start a terminal in the first free slot of the active tab,
+   * continuing in a new tab when all slots are taken
+   */
+  private startInFreeSlot(
+    projectPath: string,
+    projectName: string,
+    options: TerminalLaunchOptions
+  ): TerminalRef | undefined {
+    let tabId = this.tabManager.activeTabId;
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState) return undefined;
+
+    let terminalId = this.findFreeSlot(tabState);
+    if (terminalId === undefined) {
+      // All slots are taken, continue in a new tab
+      tabId = this.tabManager.createTab();
+      terminalId = 0;
+    }
+
+    this.terminalManager.startTerminal(tabId, terminalId, projectPath, options);
+
+    // Send message to webview to show the terminal
+    this.messenger.sendTerminalStarted(tabId, terminalId, projectName);
+    return { tabId, terminalId };
+  }
+
+  /** First slot of a tab's layout without a terminal */
+  private findFreeSlot(tabState: TabState): number | undefined {
+    for (let i = 0; i < getSlotCount(tabState.layout); i++) {
+      if (!tabState.terminalProjects.has(i)) return i;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pick a project, browse all of its sessions and resume the chosen one
+   */
+  public async browseSessions(): Promise<void> {
+    const selectedProject = await this.projectService.pickProject('Select a project to browse sessions');
+    if (!selectedProject) return;
+
+    const projectPath = selectedProject.path;
+    const choice = await this.sessionBrowser.pick(projectPath, selectedProject.name);
+    if (choice?.kind !== 'resume') return;
+
+    const profileName = await this.pickLaunchProfile(projectPath);
+    if (profileName === undefined) return;
+    this.profileService.rememberProfile(projectPath, profileName);
+
+    if (this._view) {
+      await vscode.commands.executeCommand('quadTerminal.grid.focus');
+    }
+    this.startInFreeSlot(projectPath, selectedProject.name, {
+      sessionId: choice.sessionId,
+      forkSession: choice.fork,
+      profileName,
+    });
+  }
 
-    if (projects.length === 0) {
-      vscode.window.showInformationMessage('No workspace folders open');
-      return;
+  /**
+   * Let the user choose a launch profile when more than one is configured.
+   * The profile remembered for the project is listed first.
+   * @returns The chosen profile name, or undefined if the user cancelled
+   */
+  private async pickLaunchProfile(projectPath: string): Promise<string | undefined> {
+    const profiles = this.profileService.getProfiles();
+    const current = this.profileService.getProfile(undefined, projectPath);
+    if (profiles.length === 1) {
+      return current.name;
     }
+    const lastUsed = this.profileService.getRememberedProfileName(projectPath);
 
-    // Show project picker
-    const projectItems = projects.map((p) => ({
+    const profileItems = [
+      current,
+      ...profiles.filter((p) => p.name !== current.name),
+    ].map((p) => ({
       label: p.name,
-      description: p.path,
-      project: p,
+      description: p.name === lastUsed ? 'last used' : undefined,
+      detail: this.profileService.buildCommandLine(p),
+      profileName: p.name,
     }));
 
-    const selectedProject = await vscode.window.showQuickPick(projectItems, {
-      placeHolder: 'Select a project',
+    const selected = await vscode.window.showQuickPick(profileItems, {
+      placeHolder: 'Select a launch profile',
     });
+    return selected?.profileName;
+  }
 
-    if (!selectedProject) return;
+  /**
+   * Restore the saved layout: take over terminals the pty host kept running
+   * and, depending on quadTerminal.restoreTerminals, start the others again
+   */
+  private async restoreLayout(): Promise<void> {
+    const layout = this.persistenceService.load();
+    const running = new Set(await this.ptyHost.listProcesses());
+    const isRunning = (saved: SavedTerminal) => !!saved.ptyHostId && running.has(saved.ptyHostId);
 
-    // Get sessions for the selected project
-    const sessions = await this.sessionService.getSessions(
-      selectedProject.project.path,
-      5
-    );
+    const stopped = layout
+      ? layout.tabs.reduce((n, tab) => n + tab.terminals.filter((t) => !isRunning(t)).length, 0)
+      : 0;
+    const restoreMode = this.persistenceService.getRestoreMode();
+    let relaunch = stopped > 0 && restoreMode !== 'never';
 
-    // Build session picker items
-    const sessionItems: Array<{
-      label: string;
-      description?: string;
-      kind?: vscode.QuickPickItemKind;
-      sessionId?: string;
-      action?: 'new' | 'empty';
-    }> = [
-      { label: 'New Session', action: 'new' },
-      { label: 'Empty Terminal', description: 'Shell only, no Claude', action: 'empty' },
-    ];
-
-    if (sessions.length > 0) {
-      sessionItems.push({
-        label: 'Recent Sessions',
-        kind: vscode.QuickPickItemKind.Separator,
-      });
-      sessions.forEach((s) => {
-        sessionItems.push({
-          label: s.lastMessage,
-          description: s.lastModified,
-          sessionId: s.sessionId,
+    if (relaunch && restoreMode === 'ask') {
+      const answer = await vscode.window.showInformationMessage(
+        `Restore ${stopped} terminal(s) from the previous session?`,
+        'Restore',
+        'Discard'
+      );
+      if (answer === 'Discard' && running.size === 0) {
+        this.persistenceService.clear();
+      }
+      relaunch = answer === 'Restore';
+    }
+
+    if (layout) {
+      await this.applyLayout(layout, running, relaunch);
+    }
+
+    // Nobody will take over processes that are not in the saved layout
+    for (const hostId of running) {
+      this.ptyHost.kill(hostId);
+    }
+  }
+
+  /**
+   * Recreate saved tabs, reattaching running terminals and starting the
+   * others when relaunch is set
+   * @param running Ids of pty host processes, the ones taken over are removed
+   */
+  private async applyLayout(layout: SavedLayout, running: Set<string>, relaunch: boolean): Promise<void> {
+    const restoredTabIds: number[] = [];
+
+    for (const [index, savedTab] of layout.tabs.entries()) {
+      const attachable = savedTab.terminals.filter((t) => t.ptyHostId && running.has(t.ptyHostId));
+      if (!relaunch && attachable.length === 0) continue;
+
+      // Reuse the initial tab unless something was started in it meanwhile
+      const activeTab = this.tabManager.getActiveTabState();
+      const tabId =
+        index === 0 && activeTab && activeTab.terminalProjects.size === 0
+          ? this.tabManager.activeTabId
+          : this.tabManager.createTab();
+      restoredTabIds[index] = tabId;
+
+      const layout = savedTab.layout && GRID_LAYOUTS[savedTab.layout] ? savedTab.layout : 'auto';
+      if (layout !== 'auto') {
+        this.tabManager.setLayout(tabId, layout, savedTab.splitRatios);
+      }
+
+      for (const saved of savedTab.terminals) {
+        if (!isValidTerminalId(saved.terminalId, layout)) continue;
+        const projectName = this.getProjectName(saved.worktree?.projectPath ?? saved.projectPath);
+
+        if (saved.ptyHostId && running.delete(saved.ptyHostId)) {
+          const attached = await this.ptyHost.attach(saved.ptyHostId);
+          // The slot may have been taken while waiting for the pty host
+          if (attached && this.tabManager.getTabState(tabId)?.ptyProcesses.has(saved.terminalId)) {
+            attached.process.kill();
+            continue;
+          }
+          if (attached) {
+            this.messenger.sendTerminalStarted(tabId, saved.terminalId, projectName);
+            this.terminalManager.attachTerminal(
+              tabId,
+              saved.terminalId,
+              saved,
+              attached.process,
+              attached.scrollback
+            );
+            continue;
+          }
+        }
+
+        if (!relaunch) continue;
+        if (!fs.existsSync(saved.projectPath)) {
+          console.warn(`[QuadTerminal] Skipping restore of missing project: ${saved.projectPath}`);
+          continue;
+        }
+
+        const skipClaude = saved.mode === 'shell';
+        this.terminalManager.startTerminal(tabId, saved.terminalId, saved.projectPath, {
+          sessionId: skipClaude ? undefined : saved.sessionId,
+          newSessionId: skipClaude ? undefined : saved.newSessionId,
+          skipClaude,
+          profileName: saved.profileName,
+          worktree: saved.worktree,
         });
-      });
+        this.messenger.sendTerminalStarted(tabId, saved.terminalId, projectName);
+      }
     }
 
-    const selectedSession = await vscode.window.showQuickPick(sessionItems, {
-      placeHolder: `Select session for ${selectedProject.label}`,
-    });
+    const activeTabId = restoredTabIds[layout.activeTabIndex];
+    if (activeTabId !== undefined) {
+      this.tabManager.switchTab(activeTabId);
+    }
+  }
 
-    if (!selectedSession || selectedSession.kind === vscode.QuickPickItemKind.Separator) return;
+  /**
+   * Rebuild tabs and running terminals in a fresh webview from the
+   * extension's state, replaying each terminal's buffered output
+   */
+  private replayTerminals(): void {
+    const tabs = Array.from(this.tabManager.getAllTabs());
+    if (!tabs.some(([, tabState]) => tabState.ptyProcesses.size > 0)) return;
 
-    // Find available terminal slot and start terminal
-    const activeTabId = this.tabManager.activeTabId;
-    const tabState = this.tabManager.getTabState(activeTabId);
-    if (!tabState) return;
+    // Queued output is in the scrollback too, sending both would show it twice
+    this.outputPipeline.dropQueued();
 
-    // Find an available slot
-    let targetTerminalId = -1;
-    for (let i = 0; i < 4; i++) {
-      if (!tabState.terminalProjects.has(i)) {
-        targetTerminalId = i;
-        break;
+    for (const [tabId, tabState] of tabs) {
+      // The webview starts with tab 1 only, terminals are created in its active tab
+      if (tabId === 1) {
+        this.messenger.sendTabSwitched(tabId);
+      } else {
+        this.messenger.sendTabCreated(tabId);
+      }
+      if (tabState.layout !== 'auto') {
+        this.messenger.sendLayout(tabId, tabState.layout, tabState.splitRatios);
+      }
+      if (tabState.broadcastTargets) {
+        this.messenger.sendBroadcast(tabId, Array.from(tabState.broadcastTargets));
+      }
+
+      for (const [terminalId, projectPath] of tabState.terminalProjects) {
+        if (!tabState.ptyProcesses.has(terminalId)) continue;
+
+        const worktree = tabState.terminalWorktrees.get(terminalId);
+        this.messenger.sendTerminalStarted(
+          tabId,
+          terminalId,
+          this.getProjectName(worktree?.projectPath ?? projectPath)
+        );
+        if (worktree) {
+          this.messenger.sendWorktree(tabId, terminalId, worktree.branch);
+        }
+        const scrollback = this.terminalManager.getScrollback(tabId, terminalId);
+        if (scrollback) {
+          this.messenger.sendOutput(tabId, terminalId, scrollback);
+        }
+        const status = this.terminalManager.getStatus(tabId, terminalId);
+        if (status) {
+          this.messenger.sendStatus(tabId, terminalId, status);
+        }
       }
     }
 
-    if (targetTerminalId === -1) {
-      // Create new tab
-      this.tabManager.createTab();
-      return;
+    this.sessionTracker.replay();
+    this.usageService.replay();
+
+    // Drop the webview's initial tab if it was closed on the extension side
+    if (!this.tabManager.getTabState(1)) {
+      this.messenger.sendTabClosed(1, this.tabManager.activeTabId);
     }
+    this.messenger.sendTabSwitched(this.tabManager.activeTabId);
+  }
 
-    // Start terminal
-    const sessionId = selectedSession.sessionId;
-    const skipClaude = selectedSession.action === 'empty';
+  /**
+   * Let the user pick a grid layout for a tab (the active tab by default)
+   */
+  public async changeLayout(tabId: number = this.tabManager.activeTabId): Promise<void> {
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState) return;
 
-    this.terminalManager.startTerminal(
-      activeTabId,
-      targetTerminalId,
-      selectedProject.project.path,
-      sessionId,
-      skipClaude
-    );
+    const layoutItems = (Object.keys(GRID_LAYOUTS) as GridLayout[]).map((layout) => ({
+      label: GRID_LAYOUTS[layout].label,
+      description: layout === tabState.layout ? 'current' : `${getSlotCount(layout)} slots`,
+      layout,
+    }));
 
-    // Send message to webview to show the terminal
-    this.messenger.sendTerminalStarted(
-      activeTabId,
-      targetTerminalId,
-      selectedProject.label
-    );
+    const selected = await vscode.window.showQuickPick(layoutItems, {
+      placeHolder: `Select a grid layout for Tab ${tabId}`,
+    });
+    if (!selected || selected.layout === tabState.layout) return;
+
+    this.tabManager.setLayout(tabId, selected.layout);
+  }
+
+  private isValidSplitRatios(splitRatios: SplitRatios | undefined): splitRatios is SplitRatios {
+    const isValidList = (list: unknown) =>
+      Array.isArray(list) &&
+      list.length > 0 &&
+      list.every((r) => typeof r === 'number' && r > 0 && r < 1 + Number.EPSILON);
+    return !!splitRatios && isValidList(splitRatios.columns) && isValidList(splitRatios.rows);
+  }
+
+  /** Display name for a project path, preferring the workspace folder or pinned name */
+  private getProjectName(projectPath: string): string {
+    return this.projectService.getProjectName(projectPath);
   }
 
   private async handleGetSessions(projectPath: string): Promise<void> {
     const sessions = await this.sessionService.getSessions(projectPath, 5);
     this.messenger.sendSessions(projectPath, sessions);
+
+    // Keep the webview's list current while Claude writes to the sessions
+    this.sessionService.watchProject(projectPath, (updated) => {
+      this.messenger.sendSessions(projectPath, updated);
+    });
   }
 
-  private sendProjectsToWebview(): void {
-    const projects = this.configService.getWorkspaceProjects();
+  private async sendProjectsToWebview(): Promise<void> {
+    const projects = await this.projectService.getProjects();
     this.messenger.sendProjects(projects);
   }
 
@@ -314,12 +784,52 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
   private disposeAllResources(): void {
     this.terminalManager.disposeAll();
     this.tabManager.reset();
+    this.notificationService.reset();
   }
 
   public refresh(): void {
     this.disposeAllResources();
     this.messenger.sendRefresh();
     this.sendProjectsToWebview();
+    if (this._view) {
+      this.restoreLayout();
+    }
+  }
+
+  public exportTranscript(tabId?: number, terminalId?: number): void {
+    this.transcriptService.exportTranscript(tabId, terminalId);
+  }
+
+  public reviewChanges(): void {
+    this.reviewService.reviewChanges();
+  }
+
+  public toggleBroadcast(tabId?: number): void {
+    this.broadcastService.toggle(tabId);
+  }
+
+  public broadcast(): void {
+    this.broadcastService.broadcast();
+  }
+
+  public searchAll(): void {
+    this.searchService.searchAll();
+  }
+
+  public showUsage(): void {
+    this.usageService.showUsage();
+  }
+
+  public showOutputMetrics(): void {
+    this.outputPipeline.showMetrics();
+  }
+
+  public sendSelection(): void {
+    this.editorContextService.sendSelection();
+  }
+
+  public sendFileReference(uri?: vscode.Uri, uris?: vscode.Uri[]): void {
+    this.editorContextService.sendFileReference(uri, uris);
   }
 
   public newTerminal(): void {
@@ -332,7 +842,265 @@ export class QuadTerminalViewProvider implements vscode.WebviewViewProvider {
     this.showProjectPicker();
   }
 
+  /**
+   * Start a terminal in a project, in the given slot or the first free one.
+   * Asks for the project when none is given, then submits the prompt once
+   * the terminal is ready for input.
+   * @returns The slot, or undefined if the user cancelled
+   * @throws When the slot is taken or does not exist, or the prompt could not be sent
+   */
+  public async startInSlot(options: Partial<StartInSlotOptions> = {}): Promise<TerminalRef | undefined> {
+    let projectPath = options.projectPath;
+    if (projectPath === undefined) {
+      projectPath = (await this.projectService.pickProject('Select a project'))?.path;
+      if (!projectPath) return undefined;
+    } else if (!fs.existsSync(projectPath)) {
+      throw new Error(`Project folder ${projectPath} does not exist.`);
+    }
+    if (options.profile && !this.profileService.getProfiles().some((p) => p.name === options.profile)) {
+      throw new Error(`Launch profile "${options.profile}" is not configured.`);
+    }
+    await this.ensureView();
+
+    const projectName = this.getProjectName(projectPath);
+    const launchOptions: TerminalLaunchOptions = {
+      sessionId: options.sessionId,
+      skipClaude: options.shell,
+      profileName: options.profile,
+    };
+    let target: TerminalRef | undefined;
+    if (options.tabId === undefined && options.terminalId === undefined) {
+      target = this.startInFreeSlot(projectPath, projectName, launchOptions);
+    } else {
+      const tabId = options.tabId ?? this.tabManager.activeTabId;
+      const tabState = this.tabManager.getTabState(tabId);
+      if (!tabState) {
+        throw new Error(`Tab ${tabId} does not exist.`);
+      }
+      const terminalId = options.terminalId ?? this.findFreeSlot(tabState);
+      if (terminalId === undefined) {
+        throw new Error(`Tab ${tabId} has no free slot.`);
+      }
+      if (!isValidTerminalId(terminalId, tabState.layout)) {
+        throw new Error(`Tab ${tabId} has no slot ${terminalId}.`);
+      }
+      if (tabState.terminalProjects.has(terminalId)) {
+        throw new Error(`Slot ${terminalId} of tab ${tabId} is taken.`);
+      }
+      this.terminalManager.startTerminal(tabId, terminalId, projectPath, launchOptions);
+      this.messenger.sendTerminalStarted(tabId, terminalId, projectName);
+      target = { tabId, terminalId };
+    }
+    if (!target || !this.tabManager.getTabState(target.tabId)?.ptyProcesses.has(target.terminalId)) {
+      throw new Error(`Failed to start a terminal in ${projectPath}.`);
+    }
+    this.projectService.rememberProject(projectPath);
+
+    if (options.prompt) {
+      await this.waitForInput(target);
+      await this.sendText(target, options.prompt, true);
+    }
+    return target;
+  }
+
+  /**
+   * Type text into a terminal, asking for the terminal and the text when
+   * they are not given. Text asked for is always submitted.
+   */
+  public async sendText(target?: Partial<TerminalRef>, text?: string, submit = false): Promise<void> {
+    const slot = await this.resolveTarget(target, 'Select a terminal to send text to');
+    if (!slot) return;
+    if (!this.tabManager.getTabState(slot.tabId)?.ptyProcesses.has(slot.terminalId)) {
+      throw new Error(`No terminal runs in slot ${slot.terminalId} of tab ${slot.tabId}.`);
+    }
+    if (text === undefined) {
+      text = await vscode.window.showInputBox({ prompt: 'Text to send to the terminal' });
+      if (!text) return;
+      submit = true;
+    }
+
+    const { tabId, terminalId } = slot;
+    this.terminalManager.handleInput(tabId, terminalId, text);
+    if (submit) {
+      // Submit separately so agents do not treat the newline as part of a paste
+      setTimeout(() => {
+        this.terminalManager.handleInput(tabId, terminalId, '\r');
+      }, SUBMIT_DELAY_MS);
+    }
+  }
+
+  /**
+   * Kill a terminal, asking which one when none is given
+   */
+  public async kill(target?: Partial<TerminalRef>): Promise<void> {
+    const slot = await this.resolveTarget(target, 'Select a terminal to kill');
+    if (slot) {
+      this.killTerminal(slot.tabId, slot.terminalId);
+    }
+  }
+
+  /**
+   * Restart a terminal, asking which one when none is given
+   */
+  public async restart(target?: Partial<TerminalRef>): Promise<void> {
+    const slot = await this.resolveTarget(target, 'Select a terminal to restart');
+    if (slot) {
+      this.terminalManager.restartTerminal(slot.tabId, slot.terminalId);
+    }
+  }
+
+  /**
+   * Show the grid and focus a terminal, asking which one when none is given
+   */
+  public async focusSlot(target?: Partial<TerminalRef>): Promise<void> {
+    await this.ensureView();
+    const slot = await this.resolveTarget(target, 'Select a terminal to focus');
+    if (!slot) return;
+    if (!this.tabManager.getTabState(slot.tabId)) {
+      throw new Error(`Tab ${slot.tabId} does not exist.`);
+    }
+
+    await vscode.commands.executeCommand('quadTerminal.grid.focus');
+    this.tabManager.switchTab(slot.tabId);
+    this.notificationService.markTabSeen(slot.tabId);
+    this.messenger.sendFocusTerminal(slot.tabId, slot.terminalId);
+  }
+
+  /**
+   * Every running terminal across all tabs
+   */
+  public listTerminals(): TerminalInfo[] {
+    const focused = this.notificationService.getFocusedTerminal();
+    const terminals: TerminalInfo[] = [];
+    for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+      for (const [terminalId, projectPath] of tabState.terminalProjects) {
+        if (!tabState.ptyProcesses.has(terminalId)) continue;
+
+        const worktree = tabState.terminalWorktrees.get(terminalId);
+        terminals.push({
+          tabId,
+          terminalId,
+          projectPath,
+          projectName: this.getProjectName(worktree?.projectPath ?? projectPath),
+          mode: tabState.terminalModes.get(terminalId) ?? 'claude',
+          status: this.terminalManager.getStatus(tabId, terminalId),
+          sessionId: tabState.terminalSessions.get(terminalId),
+          profileName: tabState.terminalProfiles.get(terminalId),
+          worktreeBranch: worktree?.branch,
+          focused: focused?.tabId === tabId && focused.terminalId === terminalId,
+        });
+      }
+    }
+    return terminals;
+  }
+
+  /**
+   * API returned by activate, for other extensions
+   */
+  public getApi(): QuadTerminalApi {
+    return {
+      onDidChangeStatus: this.terminalManager.onDidChangeStatus,
+      onDidWriteOutput: this.outputPipeline.onDidWriteOutput,
+      startInSlot: async (options) => {
+        // Callers get an error rather than the project picker
+        if (typeof options?.projectPath !== 'string') {
+          throw new Error('startInSlot needs a projectPath.');
+        }
+        const slot = await this.startInSlot(options);
+        if (!slot) {
+          throw new Error(`No terminal was started in ${options.projectPath}.`);
+        }
+        return slot;
+      },
+      sendText: (target, text, submit) => this.sendText(target, text, submit),
+      kill: (target) => this.kill(target),
+      restart: (target) => this.restart(target),
+      focusSlot: (target) => this.focusSlot(target),
+      listTerminals: () => this.listTerminals(),
+    };
+  }
+
+  /**
+   * The given slot, or one the user picks among the running terminals
+   * (of the given tab, if any)
+   */
+  private async resolveTarget(
+    target: Partial<TerminalRef> | undefined,
+    placeHolder: string
+  ): Promise<TerminalRef | undefined> {
+    if (target?.tabId !== undefined && target.terminalId !== undefined) {
+      return { tabId: target.tabId, terminalId: target.terminalId };
+    }
+    return pickTerminal(
+      this.tabManager,
+      placeHolder,
+      (tabId) => target?.tabId === undefined || tabId === target.tabId
+    );
+  }
+
+  /**
+   * Open the grid if needed and wait until it restored the saved layout,
+   * so terminals started through the API are not replaced by it
+   */
+  private async ensureView(): Promise<void> {
+    if (!this._view) {
+      await vscode.commands.executeCommand('quadTerminal.grid.focus');
+    }
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      this.viewReady,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, API_VIEW_READY_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+    if (!this.tabManager.getActiveTabState()) {
+      throw new Error('The Quad Terminal view did not open.');
+    }
+  }
+
+  private resetViewReady(): void {
+    this.viewReady = new Promise((resolve) => {
+      this.resolveViewReady = resolve;
+    });
+  }
+
+  /**
+   * Resolve once a new terminal waits for input: its agent finished
+   * starting, or a shell terminal's output settled
+   */
+  private waitForInput({ tabId, terminalId }: TerminalRef): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const name = `Terminal ${terminalId + 1} in tab ${tabId}`;
+      const timeout = setTimeout(() => {
+        listener.dispose();
+        reject(new Error(`${name} was not ready for input within ${API_PROMPT_TIMEOUT_MS / 1000}s.`));
+      }, API_PROMPT_TIMEOUT_MS);
+      const listener = this.terminalManager.onDidChangeStatus((change) => {
+        if (change.tabId !== tabId || change.terminalId !== terminalId) return;
+        if (change.status === 'awaiting-input' || change.status === 'idle') {
+          clearTimeout(timeout);
+          listener.dispose();
+          resolve();
+        } else if (change.status === 'exited' || change.status === 'error') {
+          clearTimeout(timeout);
+          listener.dispose();
+          reject(new Error(`${name} ${change.status === 'error' ? 'failed' : 'exited'} before the prompt was sent.`));
+        }
+      });
+    });
+  }
+
   public dispose(): void {
-    this.disposeAllResources();
+    // Terminals in the pty host keep running for the next extension host
+    this.terminalManager.disposeAll(true);
+    this.ptyHost.dispose();
+    this.usageService.dispose();
+    this.sessionTracker.dispose();
+    this.reviewService.dispose();
+    this.sessionService.dispose();
+    this.tabManager.dispose();
+    this.terminalManager.dispose();
+    this.outputPipeline.dispose();
   }
 }
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandHome } from './claude-paths';
+
+/**
+ * A file location parsed from a link in terminal output
+ */
+export interface FileLink {
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+interface FileItem extends vscode.QuickPickItem {
+  uri: vscode.Uri;
+}
+
+/**
+ * Formats of file locations, tried in order. Each captures the path,
+ * the line and the column.
+ */
+const LINK_PATTERNS: RegExp[] = [
+  // Python tracebacks: File "app/main.py", line 42
+  /^File "(.+)", line (\d+)()/,
+  // TypeScript and MSBuild: src/app.ts(10,5)
+  /^(.+?)\((\d+)(?:,(\d+))?\)$/,
+  // path, line 42
+  /^(.+?), line (\d+)()$/,
+  // Node and Go stack traces, compilers and linters: src/app.ts:10:5
+  /^(.+?)(?::(\d+)(?::(\d+))?)?$/,
+];
+
+/** Quotes, brackets and punctuation around a link that are not part of it */
+const LEADING_NOISE = /^[\s'"`(<[]+/;
+const TRAILING_NOISE = /[\s'"`>\],;.:]+$/;
+
+/** Files matching a bare file name looked at when searching the workspace */
+const SEARCH_MAX_RESULTS = 50;
+
+/**
+ * Parse a link's text into a path, line and column
+ * @returns The location, or undefined if the text holds no path
+ */
+export function parseFileLink(text: string): FileLink | undefined {
+  let cleaned = text.trim().replace(LEADING_NOISE, '').replace(TRAILING_NOISE, '');
+  // A closing parenthesis belongs to the link only in the (line,column) form
+  if (cleaned.endsWith(')') && !/\(\d+(?:,\d+)?\)$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\)+$/, '');
+  }
+  if (cleaned.startsWith('file://')) {
+    const uri = vscode.Uri.parse(cleaned.replace(/(:\d+)+$/, ''));
+    const position = /((?::\d+)+)$/.exec(cleaned)?.[1].split(':').slice(1) ?? [];
+    cleaned = [uri.fsPath, ...position].join(':');
+  }
+
+  for (const pattern of LINK_PATTERNS) {
+    const match = pattern.exec(cleaned);
+    if (!match || !match[1]) continue;
+    return {
+      path: match[1],
+      line: match[2] ? parseInt(match[2], 10) : undefined,
+      column: match[3] ? parseInt(match[3], 10) : undefined,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Finds the file a link in a terminal points to: as given, relative to the
+ * terminal's directory or a workspace folder, without the a/ and b/ prefixes
+ * of diffs, and finally by searching the workspace for the file name
+ */
+export class LinkResolver {
+  /**
+   * @param cwd Directory the terminal runs in
+   * @returns The file, or undefined if it was not found or the user cancelled
+   *   choosing between several matches
+   */
+  async resolve(link: FileLink, cwd: string | undefined): Promise<vscode.Uri | undefined> {
+    const linkPath = expandHome(link.path);
+    const found = this.getCandidates(linkPath, cwd).find((candidate) => fs.existsSync(candidate));
+    if (found) {
+      return vscode.Uri.file(found);
+    }
+    return this.searchWorkspace(linkPath);
+  }
+
+  /** Paths the link may point to, most likely first */
+  private getCandidates(linkPath: string, cwd: string | undefined): string[] {
+    const roots = [cwd, ...(vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath)].filter(
+      (root): root is string => !!root
+    );
+    const relativePaths = [linkPath];
+    // Diff headers name files as a/src/app.ts and b/src/app.ts
+    const diffPath = /^[ab][\\/](.+)$/.exec(linkPath)?.[1];
+    if (diffPath) relativePaths.push(diffPath);
+
+    if (path.isAbsolute(linkPath)) {
+      return [linkPath];
+    }
+    return relativePaths.flatMap((relative) => roots.map((root) => path.resolve(root, relative)));
+  }
+
+  /**
+   * Search the workspace for files with the link's name whose path ends
+   * with the link's path, asking which one when several match
+   */
+  private async searchWorkspace(linkPath: string): Promise<vscode.Uri | undefined> {
+    const segments = linkPath.split(/[\\/]/).filter((s) => s && s !== '.' && s !== '..');
+    const fileName = segments[segments.length - 1];
+    if (!fileName || !vscode.workspace.workspaceFolders) return undefined;
+
+    const files = await vscode.workspace.findFiles(
+      `**/${fileName.replace(/[[\]{}*?]/g, '?')}`,
+      '**/node_modules/**',
+      SEARCH_MAX_RESULTS
+    );
+    // Prefer files whose path ends with the most of the link's folders, e.g. an
+    // absolute path from a container or another machine
+    const score = (uri: vscode.Uri) => {
+      const parts = uri.fsPath.split(path.sep);
+      let matched = 0;
+      while (
+        matched < segments.length &&
+        parts[parts.length - 1 - matched] === segments[segments.length - 1 - matched]
+      ) {
+        matched++;
+      }
+      return matched;
+    };
+    const matches = files.filter((uri) => score(uri) > 0);
+    const best = Math.max(0, ...matches.map(score));
+    const candidates = matches.filter((uri) => score(uri) === best);
+    if (candidates.length <= 1) {
+      return candidates[0];
+    }
+
+    const items: FileItem[] = candidates
+      .map((uri) => ({ label: vscode.workspace.asRelativePath(uri), uri }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Several files match ${linkPath}, select the one to open`,
+    });
+    return selected?.uri;
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TerminalStatus, TerminalStatusChange } from '../types';
+import { TabManager } from './tab-manager';
+import { WebviewMessenger } from './webview-messenger';
+
+/** States notified about when the setting does not say otherwise */
+const DEFAULT_NOTIFY_STATES: Partial<Record<TerminalStatus, boolean>> = {
+  'awaiting-input': true,
+  'awaiting-permission': true,
+  idle: false,
+  exited: false,
+  error: true,
+};
+
+/** Human readable descriptions used in notifications */
+const STATUS_MESSAGES: Partial<Record<TerminalStatus, string>> = {
+  'awaiting-input': 'is waiting for input',
+  'awaiting-permission': 'is waiting for permission',
+  idle: 'is idle',
+  exited: 'has exited',
+  error: 'reported an error',
+};
+
+/**
+ * Tells the user when a terminal they are not looking at needs attention:
+ * a VS Code notification, a badge on the view and an unread dot on the tab
+ */
+export class NotificationService {
+  /** Terminals needing attention, keyed by "tabId:terminalId" */
+  private attention = new Set<string>();
+  private focused?: { tabId: number; terminalId: number };
+  /** Terminal that had focus last, kept while focus is outside the webview */
+  private lastFocused?: { tabId: number; terminalId: number };
+
+  constructor(
+    private tabManager: TabManager,
+    private messenger: WebviewMessenger,
+    private getView: () => vscode.WebviewView | undefined
+  ) {}
+
+  /**
+   * React to a terminal status change
+   */
+  handleStatusChange(change: TerminalStatusChange): void {
+    const { tabId, terminalId, status, previous } = change;
+
+    // Going back to work means the user has dealt with it
+    if (this.isWorking(status)) {
+      this.clear(tabId, terminalId);
+      return;
+    }
+
+    const finishedWork = previous !== undefined && this.isWorking(previous);
+    if (!this.isEnabled(status) || !(finishedWork || status === 'error')) return;
+    if (this.isFocused(tabId, terminalId)) return;
+
+    this.attention.add(this.key(tabId, terminalId));
+    this.messenger.sendAttention(tabId, terminalId, true);
+    this.updateBadge();
+    this.showNotification(tabId, terminalId, status);
+  }
+
+  /**
+   * Track which terminal has keyboard focus in the webview
+   */
+  setFocusedTerminal(tabId?: number, terminalId?: number): void {
+    if (tabId === undefined || terminalId === undefined) {
+      this.focused = undefined;
+      return;
+    }
+    this.focused = { tabId, terminalId };
+    this.lastFocused = this.focused;
+    this.clear(tabId, terminalId);
+  }
+
+  /** The terminal with keyboard focus in the webview, if any */
+  getFocusedTerminal(): { tabId: number; terminalId: number } | undefined {
+    return this.focused;
+  }
+
+  /** The terminal that had keyboard focus last, even if the webview lost it since */
+  getLastFocusedTerminal(): { tabId: number; terminalId: number } | undefined {
+    return this.lastFocused;
+  }
+
+  /**
+   * Mark every terminal in a tab as seen
+   */
+  markTabSeen(tabId: number): void {
+    for (const key of Array.from(this.attention)) {
+      const [keyTabId, terminalId] = key.split(':').map(Number);
+      if (keyTabId === tabId) {
+        this.clear(keyTabId, terminalId);
+      }
+    }
+  }
+
+  /**
+   * Forget terminals that no longer exist
+   */
+  prune(): void {
+    for (const key of Array.from(this.attention)) {
+      const [tabId, terminalId] = key.split(':').map(Number);
+      if (!this.tabManager.getTabState(tabId)?.terminalProjects.has(terminalId)) {
+        this.attention.delete(key);
+      }
+    }
+    this.updateBadge();
+  }
+
+  /** Forget all attention state (used when everything is disposed) */
+  reset(): void {
+    this.attention.clear();
+    this.focused = undefined;
+    this.lastFocused = undefined;
+    this.updateBadge();
+  }
+
+  private clear(tabId: number, terminalId: number): void {
+    if (this.attention.delete(this.key(tabId, terminalId))) {
+      this.messenger.sendAttention(tabId, terminalId, false);
+      this.updateBadge();
+    }
+  }
+
+  private async showNotification(
+    tabId: number,
+    terminalId: number,
+    status: TerminalStatus
+  ): Promise<void> {
+    const projectPath = this.tabManager.getTabState(tabId)?.terminalProjects.get(terminalId);
+    const name = projectPath ? path.basename(projectPath) : `Terminal ${terminalId + 1}`;
+    const message = `${name} (Tab ${tabId}) ${STATUS_MESSAGES[status] ?? status}`;
+
+    const show =
+      status === 'error'
+        ? vscode.window.showWarningMessage(message, 'Show')
+        : vscode.window.showInformationMessage(message, 'Show');
+
+    if ((await show) === 'Show') {
+      await vscode.commands.executeCommand('quadTerminal.grid.focus');
+      this.tabManager.switchTab(tabId);
+      this.markTabSeen(tabId);
+      this.messenger.sendFocusTerminal(tabId, terminalId);
+    }
+  }
+
+  private updateBadge(): void {
+    const view = this.getView();
+    if (!view) return;
+
+    const count = this.attention.size;
+    view.badge =
+      count > 0
+        ? { value: count, tooltip: `${count} terminal(s) need attention` }
+        : undefined;
+  }
+
+  private isEnabled(status: TerminalStatus): boolean {
+    const configured = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<Partial<Record<TerminalStatus, boolean>>>('notifications', {});
+    return (configured[status] ?? DEFAULT_NOTIFY_STATES[status]) === true;
+  }
+
+  private isFocused(tabId: number, terminalId: number): boolean {
+    return (
+      this.getView()?.visible === true &&
+      this.focused?.tabId === tabId &&
+      this.focused?.terminalId === terminalId
+    );
+  }
+
+  private isWorking(status: TerminalStatus): boolean {
+    return status === 'busy' || status === 'thinking' || status === 'running-tool';
+  }
+
+  private key(tabId: number, terminalId: number): string {
+    return `${tabId}:${terminalId}`;
+  }
+}
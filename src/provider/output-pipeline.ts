@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import { OutputMetrics, PtyProcess, TerminalOutputEvent } from '../types';
+import {
+  OUTPUT_ACK_TIMEOUT_MS,
+  OUTPUT_BATCH_MAX_CHARS,
+  OUTPUT_FLUSH_INTERVAL_MS,
+  OUTPUT_HIGH_WATERMARK,
+  OUTPUT_LOW_WATERMARK,
+} from '../constants';
+import { WebviewMessenger } from './webview-messenger';
+
+/**
+ * Output of one terminal on its way to the webview
+ */
+interface OutputStream {
+  ptyProcess: PtyProcess;
+  /** Called once per message posted, e.g. to mark the terminal busy */
+  onFlush: () => void;
+  chunks: string[];
+  /** Characters in chunks */
+  pending: number;
+  flushTimer?: NodeJS.Timeout;
+  /** Characters posted that xterm has not acknowledged yet */
+  unacknowledged: number;
+  /** When the PTY was paused, undefined while it runs */
+  pausedAt?: number;
+  ackTimer?: NodeJS.Timeout;
+  metrics: OutputMetrics;
+}
+
+/**
+ * Coalesces PTY output per terminal into one webview message per frame and
+ * pauses the PTY while xterm is behind. The webview acknowledges every
+ * message once xterm has written it, and the PTY resumes when the
+ * unacknowledged output drops below the low watermark.
+ */
+export class OutputPipeline implements vscode.Disposable {
+  /** Streams keyed by "tabId:terminalId" */
+  private streams = new Map<string, OutputStream>();
+
+  private _onDidWriteOutput = new vscode.EventEmitter<TerminalOutputEvent>();
+
+  /** Fires with every batch of output sent to the webview */
+  readonly onDidWriteOutput = this._onDidWriteOutput.event;
+
+  constructor(private messenger: WebviewMessenger) {}
+
+  /**
+   * Start carrying the output of a terminal's new PTY process
+   */
+  open(tabId: number, terminalId: number, ptyProcess: PtyProcess, onFlush: () => void): void {
+    this.close(tabId, terminalId);
+    this.streams.set(this.key(tabId, terminalId), {
+      ptyProcess,
+      onFlush,
+      chunks: [],
+      pending: 0,
+      unacknowledged: 0,
+      metrics: {
+        tabId,
+        terminalId,
+        startedAt: Date.now(),
+        chunks: 0,
+        messages: 0,
+        characters: 0,
+        largestMessage: 0,
+        unacknowledged: 0,
+        pauses: 0,
+        pausedMs: 0,
+      },
+    });
+  }
+
+  /**
+   * Queue output of a terminal, sent on the next frame or at once when
+   * the batch is full
+   */
+  push(tabId: number, terminalId: number, data: string): void {
+    const stream = this.streams.get(this.key(tabId, terminalId));
+    if (!stream) return;
+
+    stream.chunks.push(data);
+    stream.pending += data.length;
+    stream.metrics.chunks++;
+
+    if (stream.pending >= OUTPUT_BATCH_MAX_CHARS) {
+      this.flush(tabId, terminalId);
+    } else if (!stream.flushTimer) {
+      stream.flushTimer = setTimeout(() => this.flush(tabId, terminalId), OUTPUT_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Send a terminal's queued output now, e.g. before reporting its exit
+   */
+  flush(tabId: number, terminalId: number): void {
+    const stream = this.streams.get(this.key(tabId, terminalId));
+    if (!stream) return;
+
+    if (stream.flushTimer) clearTimeout(stream.flushTimer);
+    stream.flushTimer = undefined;
+    if (stream.pending === 0) return;
+
+    const data = stream.chunks.join('');
+    stream.chunks = [];
+    stream.pending = 0;
+    this.messenger.sendOutput(tabId, terminalId, data);
+
+    const { metrics } = stream;
+    metrics.messages++;
+    metrics.characters += data.length;
+    metrics.largestMessage = Math.max(metrics.largestMessage, data.length);
+    stream.unacknowledged += data.length;
+    if (stream.unacknowledged >= OUTPUT_HIGH_WATERMARK && stream.pausedAt === undefined) {
+      this.pause(stream);
+    }
+    stream.onFlush();
+    this._onDidWriteOutput.fire({ tabId, terminalId, data });
+  }
+
+  /**
+   * xterm wrote a message of a terminal, resume its PTY once it caught up
+   */
+  acknowledge(tabId: number, terminalId: number, length: number): void {
+    const stream = this.streams.get(this.key(tabId, terminalId));
+    if (!stream || !(length > 0)) return;
+
+    // Replayed scrollback is acknowledged too, it was never counted
+    stream.unacknowledged = Math.max(0, stream.unacknowledged - length);
+    if (stream.pausedAt === undefined) return;
+    if (stream.unacknowledged <= OUTPUT_LOW_WATERMARK) {
+      this.resume(stream);
+    } else {
+      this.waitForAcknowledgement(stream);
+    }
+  }
+
+  /**
+   * Forget every unacknowledged message and resume paused PTYs, for when
+   * the webview was rebuilt and will never acknowledge them
+   */
+  resetFlowControl(): void {
+    for (const stream of this.streams.values()) {
+      stream.unacknowledged = 0;
+      if (stream.pausedAt !== undefined) this.resume(stream);
+    }
+  }
+
+  /**
+   * Drop the output queued for every terminal without posting it, for when
+   * a rebuilt webview is sent the scrollback, which already holds it.
+   * onDidWriteOutput still fires with it.
+   */
+  dropQueued(): void {
+    for (const stream of this.streams.values()) {
+      if (stream.flushTimer) clearTimeout(stream.flushTimer);
+      stream.flushTimer = undefined;
+      if (stream.pending === 0) continue;
+
+      const data = stream.chunks.join('');
+      stream.chunks = [];
+      stream.pending = 0;
+      const { tabId, terminalId } = stream.metrics;
+      this._onDidWriteOutput.fire({ tabId, terminalId, data });
+    }
+  }
+
+  /**
+   * Stop carrying a terminal's output, dropping what is still queued
+   */
+  close(tabId: number, terminalId: number): void {
+    const key = this.key(tabId, terminalId);
+    const stream = this.streams.get(key);
+    if (!stream) return;
+
+    if (stream.flushTimer) clearTimeout(stream.flushTimer);
+    if (stream.ackTimer) clearTimeout(stream.ackTimer);
+    this.streams.delete(key);
+  }
+
+  /** Throughput of every running terminal */
+  getMetrics(): OutputMetrics[] {
+    const now = Date.now();
+    return Array.from(this.streams.values())
+      .map((stream) => ({
+        ...stream.metrics,
+        unacknowledged: stream.unacknowledged,
+        pausedMs:
+          stream.metrics.pausedMs + (stream.pausedAt !== undefined ? now - stream.pausedAt : 0),
+      }))
+      .sort((a, b) => a.tabId - b.tabId || a.terminalId - b.terminalId);
+  }
+
+  /**
+   * Show output throughput and flow control per terminal
+   */
+  async showMetrics(): Promise<void> {
+    const metrics = this.getMetrics();
+    if (metrics.length === 0) {
+      vscode.window.showInformationMessage('No terminal is running.');
+      return;
+    }
+
+    const items: vscode.QuickPickItem[] = metrics.map((m) => {
+      const seconds = Math.max((Date.now() - m.startedAt) / 1000, 1);
+      const averageMessage = m.messages > 0 ? Math.round(m.characters / m.messages) : 0;
+      return {
+        label: `$(terminal) Tab ${m.tabId} · Terminal ${m.terminalId + 1}`,
+        description: `${this.formatSize(m.characters / seconds)}/s · ${(m.messages / seconds).toFixed(1)} messages/s`,
+        detail:
+          `${this.formatSize(m.characters)} in ${m.chunks.toLocaleString()} chunks, ` +
+          `${m.messages.toLocaleString()} messages (avg ${this.formatSize(averageMessage)}, ` +
+          `max ${this.formatSize(m.largestMessage)}) · ${this.formatSize(m.unacknowledged)} unacknowledged · ` +
+          `paused ${m.pauses} times for ${(m.pausedMs / 1000).toFixed(1)}s`,
+      };
+    });
+
+    await vscode.window.showQuickPick(items, {
+      title: 'Terminal Output Metrics',
+      placeHolder: 'Output throughput and flow control since each terminal started',
+      matchOnDescription: true,
+    });
+  }
+
+  /** Stop carrying the output of every terminal */
+  closeAll(): void {
+    for (const key of Array.from(this.streams.keys())) {
+      const [tabId, terminalId] = key.split(':').map(Number);
+      this.close(tabId, terminalId);
+    }
+  }
+
+  dispose(): void {
+    this.closeAll();
+    this._onDidWriteOutput.dispose();
+  }
+
+  private pause(stream: OutputStream): void {
+    try {
+      stream.ptyProcess.pause();
+    } catch {
+      // The process already exited
+      return;
+    }
+    stream.pausedAt = Date.now();
+    stream.metrics.pauses++;
+    this.waitForAcknowledgement(stream);
+  }
+
+  /**
+   * Resume a paused PTY when the webview stops acknowledging, so a webview
+   * that lost messages does not block the terminal for good
+   */
+  private waitForAcknowledgement(stream: OutputStream): void {
+    if (stream.ackTimer) clearTimeout(stream.ackTimer);
+    stream.ackTimer = setTimeout(() => {
+      if (stream.pausedAt === undefined) return;
+      console.warn(
+        `[OutputPipeline] No acknowledgement within ${OUTPUT_ACK_TIMEOUT_MS}ms: tab=${stream.metrics.tabId}, terminal=${stream.metrics.terminalId}`
+      );
+      stream.unacknowledged = 0;
+      this.resume(stream);
+    }, OUTPUT_ACK_TIMEOUT_MS);
+  }
+
+  private resume(stream: OutputStream): void {
+    if (stream.ackTimer) clearTimeout(stream.ackTimer);
+    stream.ackTimer = undefined;
+    if (stream.pausedAt !== undefined) {
+      stream.metrics.pausedMs += Date.now() - stream.pausedAt;
+      stream.pausedAt = undefined;
+    }
+    try {
+      stream.ptyProcess.resume();
+    } catch {
+      // The process already exited
+    }
+  }
+
+  private formatSize(characters: number): string {
+    if (characters < 1024) return `${Math.round(characters)} B`;
+    if (characters < 1024 * 1024) return `${(characters / 1024).toFixed(1)} KB`;
+    return `${(characters / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private key(tabId: number, terminalId: number): string {
+    return `${tabId}:${terminalId}`;
+  }
+}
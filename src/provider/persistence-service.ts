@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { RestoreMode, SavedLayout, SavedTab, TabState } from '../types';
+import { LAYOUT_STATE_KEY } from '../constants';
+
+/**
+ * Saves the tab and terminal layout to workspace state so it survives reloads
+ */
+export class PersistenceService {
+  constructor(private workspaceState: vscode.Memento) {}
+
+  /** Get the configured restore behaviour */
+  getRestoreMode(): RestoreMode {
+    return vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<RestoreMode>('restoreTerminals', 'auto');
+  }
+
+  /**
+   * Save the current layout. Tabs without terminals are kept so tab
+   * positions survive, but a layout with no terminals at all is cleared.
+   */
+  save(tabs: Map<number, TabState>, activeTabId: number): void {
+    const savedTabs: SavedTab[] = [];
+    let activeTabIndex = 0;
+
+    for (const [tabId, tabState] of tabs) {
+      if (tabId === activeTabId) {
+        activeTabIndex = savedTabs.length;
+      }
+      const terminals = Array.from(tabState.terminalProjects.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([terminalId, projectPath]) => ({
+          terminalId,
+          projectPath,
+          mode: tabState.terminalModes.get(terminalId) ?? 'claude',
+          // A session without a file yet cannot be resumed after a reload
+          sessionId: tabState.newSessions.has(terminalId)
+            ? undefined
+            : tabState.terminalSessions.get(terminalId),
+          newSessionId: tabState.newSessions.has(terminalId)
+            ? tabState.terminalSessions.get(terminalId)
+            : undefined,
+          ptyHostId: tabState.ptyProcesses.get(terminalId)?.hostId,
+          profileName: tabState.terminalProfiles.get(terminalId),
+          worktree: tabState.terminalWorktrees.get(terminalId),
+        }));
+      savedTabs.push({
+        terminals,
+        layout: tabState.layout,
+        splitRatios: tabState.splitRatios,
+      });
+    }
+
+    if (savedTabs.every((tab) => tab.terminals.length === 0)) {
+      this.clear();
+      return;
+    }
+
+    const layout: SavedLayout = { activeTabIndex, tabs: savedTabs };
+    this.workspaceState.update(LAYOUT_STATE_KEY, layout);
+  }
+
+  /** Load the saved layout, if any */
+  load(): SavedLayout | undefined {
+    const layout = this.workspaceState.get<SavedLayout>(LAYOUT_STATE_KEY);
+    if (!layout || !Array.isArray(layout.tabs) || layout.tabs.length === 0) {
+      return undefined;
+    }
+    return layout;
+  }
+
+  /** Forget the saved layout */
+  clear(): void {
+    this.workspaceState.update(LAYOUT_STATE_KEY, undefined);
+  }
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { LaunchProfile, TerminalLaunchOptions } from '../types';
+import { PROJECT_PROFILES_STATE_KEY } from '../constants';
+import { applyEnv } from './environment-service';
+
+/** Profile used when none are configured, matching the original behaviour */
+const DEFAULT_PROFILE: LaunchProfile = {
+  name: 'Claude',
+  command: 'claude',
+  skipPermissions: true,
+};
+
+/** Resume arguments used when a profile does not define its own */
+const DEFAULT_RESUME_ARGS = ['--resume', '${sessionId}'];
+const DEFAULT_FORK_ARGS = ['--fork-session'];
+/** Session id arguments of the claude command, other commands get none unless configured */
+const CLAUDE_SESSION_ID_ARGS = ['--session-id', '${sessionId}'];
+
+/**
+ * Reads agent launch profiles from settings, remembers the profile used per
+ * project and builds the command line typed into the shell
+ */
+export class ProfileService {
+  constructor(private workspaceState: vscode.Memento) {}
+
+  /** Get all configured profiles, falling back to the default Claude profile */
+  getProfiles(): LaunchProfile[] {
+    const configured = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<LaunchProfile[]>('launchProfiles', []);
+
+    const profiles = (Array.isArray(configured) ? configured : []).filter(
+      (p) =>
+        p &&
+        typeof p.name === 'string' &&
+        p.name.trim() !== '' &&
+        typeof p.command === 'string' &&
+        p.command.trim() !== ''
+    );
+
+    return profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+  }
+
+  /**
+   * Resolve the profile to launch. An explicit name wins, then the profile
+   * remembered for the project, then the configured default.
+   */
+  getProfile(profileName: string | undefined, projectPath: string): LaunchProfile {
+    const profiles = this.getProfiles();
+    const candidates = [
+      profileName,
+      this.getRememberedProfileName(projectPath),
+      vscode.workspace
+        .getConfiguration('quadTerminal')
+        .get<string>('defaultLaunchProfile'),
+    ];
+
+    for (const name of candidates) {
+      const profile = name && profiles.find((p) => p.name === name);
+      if (profile) return profile;
+    }
+    return profiles[0];
+  }
+
+  /** Get the profile name last used for a project */
+  getRememberedProfileName(projectPath: string): string | undefined {
+    return this.getRememberedProfiles()[projectPath];
+  }
+
+  /** Remember the profile used for a project */
+  rememberProfile(projectPath: string, profileName: string): void {
+    const remembered = this.getRememberedProfiles();
+    remembered[projectPath] = profileName;
+    this.workspaceState.update(PROJECT_PROFILES_STATE_KEY, remembered);
+  }
+
+  /** Whether new sessions of a profile can be started with an id chosen up front */
+  canAssignSessionId(profile: LaunchProfile): boolean {
+    return this.getSessionIdArgs(profile).length > 0;
+  }
+
+  /**
+   * Build the command line for a profile, resuming or forking a session,
+   * or starting a new one with a given id
+   */
+  buildCommandLine(
+    profile: LaunchProfile,
+    options: Pick<TerminalLaunchOptions, 'sessionId' | 'forkSession' | 'newSessionId'> = {}
+  ): string {
+    const { sessionId, forkSession, newSessionId } = options;
+    const substitute = (list: string[], id: string) =>
+      list.map((a) => a.replace(/\$\{sessionId\}/g, id));
+    const args: string[] = [];
+
+    if (profile.skipPermissions) {
+      args.push('--dangerously-skip-permissions');
+    }
+    if (profile.model) {
+      args.push('--model', profile.model);
+    }
+    for (const dir of profile.addDirs || []) {
+      args.push('--add-dir', dir);
+    }
+    args.push(...(profile.args || []));
+
+    if (sessionId) {
+      args.push(...substitute(profile.resumeArgs || DEFAULT_RESUME_ARGS, sessionId));
+      if (forkSession) {
+        args.push(...(profile.forkArgs || DEFAULT_FORK_ARGS));
+      }
+    } else if (newSessionId) {
+      args.push(...substitute(this.getSessionIdArgs(profile), newSessionId));
+    }
+
+    const isWindows = os.platform() === 'win32';
+    const command = this.quoteArg(profile.command, isWindows);
+    // PowerShell treats a quoted first token as a string, not a command
+    const invocation =
+      isWindows && command !== profile.command ? `& ${command}` : command;
+
+    return [invocation, ...args.map((a) => this.quoteArg(a, isWindows))].join(' ');
+  }
+
+  /**
+   * Apply a profile's environment overrides to a base environment
+   */
+  applyEnv(
+    env: { [key: string]: string | undefined },
+    profile: LaunchProfile
+  ): { [key: string]: string | undefined } {
+    return applyEnv(env, profile.env);
+  }
+
+  /**
+   * Arguments that start a new session with a given id. Only the claude
+   * command is known to take --session-id, other agents and wrapper scripts
+   * have their session detected from its file unless they configure them.
+   */
+  private getSessionIdArgs(profile: LaunchProfile): string[] {
+    if (profile.sessionIdArgs) return profile.sessionIdArgs;
+    return profile.command.trim() === DEFAULT_PROFILE.command ? CLAUDE_SESSION_ID_ARGS : [];
+  }
+
+  private getRememberedProfiles(): Record<string, string> {
+    return { ...this.workspaceState.get<Record<string, string>>(PROJECT_PROFILES_STATE_KEY, {}) };
+  }
+
+  /** Quote an argument for the shell if it contains special characters */
+  private quoteArg(arg: string, isWindows: boolean): string {
+    const safe = isWindows ? /^[\w@%+=:,./\\-]+$/ : /^[\w@%+=:,./-]+$/;
+    if (safe.test(arg)) {
+      return arg;
+    }
+    return isWindows
+      ? `'${arg.replace(/'/g, "''")}'`
+      : `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+}
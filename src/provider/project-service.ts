@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PinnedProject, Project, ProjectSource } from '../types';
+import {
+  DEFAULT_PROJECT_MARKERS,
+  PROJECT_DISCOVERY_MAX_DIRS,
+  RECENT_PROJECTS_LIMIT,
+  RECENT_PROJECTS_STATE_KEY,
+} from '../constants';
+import { expandHome, normalizeProjectPath } from './claude-paths';
+import { ConfigService } from './config-service';
+
+interface ProjectItem extends vscode.QuickPickItem {
+  project?: Project;
+  browse?: boolean;
+}
+
+/** Directories never searched for nested projects */
+const SKIPPED_DIRS = new Set(['node_modules', 'bower_components', 'vendor', 'dist', 'out', 'build']);
+
+/** Description shown next to a project per source */
+const SOURCE_LABELS: Record<ProjectSource, string> = {
+  workspace: 'workspace folder',
+  pinned: 'pinned',
+  discovered: 'nested project',
+  recent: 'recently opened',
+};
+
+/**
+ * Projects offered for new terminals: workspace folders, pinned folders,
+ * projects nested in the workspace folders and folders opened before,
+ * most recently used first
+ */
+export class ProjectService {
+  constructor(
+    private workspaceState: vscode.Memento,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * All known projects, recently used ones first in the order they were used
+   */
+  async getProjects(): Promise<Project[]> {
+    const byPath = new Map<string, Project>();
+    const add = (project: Project) => {
+      const key = normalizeProjectPath(project.path);
+      if (!byPath.has(key)) byPath.set(key, project);
+    };
+
+    const workspace = this.configService.getWorkspaceProjects();
+    workspace.forEach((p) => add({ ...p, source: 'workspace' }));
+    this.getPinnedProjects().forEach(add);
+    (await this.discoverProjects(workspace.map((p) => p.path))).forEach(add);
+    this.getRecentPaths()
+      .filter((p) => fs.existsSync(p))
+      .forEach((p) => add({ name: path.basename(p), path: p, source: 'recent' }));
+
+    const recent = this.getRecentPaths().map((p) => normalizeProjectPath(p));
+    const rank = (project: Project) => {
+      const index = recent.indexOf(normalizeProjectPath(project.path));
+      return index === -1 ? recent.length : index;
+    };
+    // Array.prototype.sort is stable, projects not used yet keep their order
+    return Array.from(byPath.values()).sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Display name for a project path: the workspace folder or pinned name,
+   * otherwise the folder name
+   */
+  getProjectName(projectPath: string): string {
+    const key = normalizeProjectPath(projectPath);
+    const project = [...this.configService.getWorkspaceProjects(), ...this.getPinnedProjects()].find(
+      (p) => normalizeProjectPath(p.path) === key
+    );
+    return project ? project.name : path.basename(projectPath);
+  }
+
+  /** Move a project to the front of the recently used list */
+  rememberProject(projectPath: string): void {
+    const key = normalizeProjectPath(projectPath);
+    const recent = [
+      projectPath,
+      ...this.getRecentPaths().filter((p) => normalizeProjectPath(p) !== key),
+    ].slice(0, RECENT_PROJECTS_LIMIT);
+    this.workspaceState.update(RECENT_PROJECTS_STATE_KEY, recent);
+  }
+
+  /**
+   * Let the user choose a known project or browse to any folder.
+   * The chosen project is remembered as the most recently used.
+   * @returns The project, or undefined if the user cancelled
+   */
+  async pickProject(placeHolder: string): Promise<Project | undefined> {
+    const projects = await this.getProjects();
+    const recent = new Set(this.getRecentPaths().map((p) => normalizeProjectPath(p)));
+    const isRecent = (p: Project) => recent.has(normalizeProjectPath(p.path));
+
+    const toItem = (project: Project): ProjectItem => ({
+      label: project.name,
+      description: this.describe(project),
+      project,
+    });
+    const recentItems = projects.filter(isRecent).map(toItem);
+    const otherItems = projects.filter((p) => !isRecent(p)).map(toItem);
+    const items: ProjectItem[] = [
+      ...(recentItems.length > 0 ? [{ label: 'Recent', kind: vscode.QuickPickItemKind.Separator }] : []),
+      ...recentItems,
+      ...(recentItems.length > 0 && otherItems.length > 0
+        ? [{ label: 'Projects', kind: vscode.QuickPickItemKind.Separator }]
+        : []),
+      ...otherItems,
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      { label: '$(folder-opened) Browse...', description: 'Open any folder', browse: true },
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder,
+      matchOnDescription: true,
+    });
+    if (!selected) return undefined;
+
+    const project = selected.browse ? await this.browseForProject() : selected.project;
+    if (project) this.rememberProject(project.path);
+    return project;
+  }
+
+  private async browseForProject(): Promise<Project | undefined> {
+    const [folder] =
+      (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Open in Quad Terminal',
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      })) ?? [];
+    if (!folder) return undefined;
+    return { name: this.getProjectName(folder.fsPath), path: folder.fsPath };
+  }
+
+  /**
+   * Folders of the pinnedProjects setting. Relative paths start at the
+   * first workspace folder, "~" is the home directory.
+   */
+  private getPinnedProjects(): Project[] {
+    const pinned = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<PinnedProject[]>('pinnedProjects', []);
+    if (!Array.isArray(pinned)) return [];
+
+    const base = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+    const projects: Project[] = [];
+    for (const entry of pinned) {
+      const rawPath = typeof entry === 'string' ? entry : entry?.path;
+      if (typeof rawPath !== 'string' || !rawPath.trim()) continue;
+
+      const projectPath = path.resolve(base, expandHome(rawPath.trim()));
+      const name = typeof entry === 'object' && entry.name ? entry.name : path.basename(projectPath);
+      projects.push({ name, path: projectPath, source: 'pinned' });
+    }
+    return projects;
+  }
+
+  /**
+   * Folders below the workspace folders that contain a project marker,
+   * down to the projectDiscoveryDepth setting
+   */
+  private async discoverProjects(roots: string[]): Promise<Project[]> {
+    const config = vscode.workspace.getConfiguration('quadTerminal');
+    const maxDepth = config.get<number>('projectDiscoveryDepth', 2);
+    const markers = config.get<string[]>('projectMarkers', DEFAULT_PROJECT_MARKERS);
+    if (!(maxDepth > 0) || !Array.isArray(markers) || markers.length === 0) return [];
+
+    const found: Project[] = [];
+    const queue = roots.map((dir) => ({ dir, depth: 0 }));
+    let visited = 0;
+    while (queue.length > 0 && visited < PROJECT_DISCOVERY_MAX_DIRS) {
+      const { dir, depth } = queue.shift()!;
+      visited++;
+
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      if (depth > 0 && entries.some((e) => markers.includes(e.name))) {
+        const root = roots.find((r) => dir.startsWith(r + path.sep));
+        found.push({
+          name: root ? path.relative(path.dirname(root), dir).split(path.sep).join('/') : path.basename(dir),
+          path: dir,
+          source: 'discovered',
+        });
+      }
+      if (depth >= maxDepth) continue;
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+        queue.push({ dir: path.join(dir, entry.name), depth: depth + 1 });
+      }
+    }
+    if (queue.length > 0) {
+      console.warn(`[ProjectService] Stopped looking for nested projects after ${visited} folders`);
+    }
+    return found;
+  }
+
+  private getRecentPaths(): string[] {
+    const recent = this.workspaceState.get<string[]>(RECENT_PROJECTS_STATE_KEY, []);
+    return Array.isArray(recent) ? recent.filter((p) => typeof p === 'string') : [];
+  }
+
+  /** Path shown next to a project name, with the home directory as "~" */
+  private describe(project: Project): string {
+    const home = os.homedir();
+    const shown = project.path.startsWith(home + path.sep)
+      ? `~${project.path.slice(home.length)}`
+      : project.path;
+    return project.source ? `${shown} · ${SOURCE_LABELS[project.source]}` : shown;
+  }
+}
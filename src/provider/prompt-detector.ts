@@ -0,0 +1,104 @@
+import { stripAnsi } from './ansi';
+import { PROMPT_QUIET_MS } from '../constants';
+
+/** Shell integration prompt markers: OSC 133 (FinalTerm) and OSC 633 (VS Code) A/B */
+const PROMPT_MARKER_PATTERN = /\x1b\](?:133|633);[AB](?:;[^\x07\x1b]*)?(?:\x07|\x1b\\)/;
+
+/** Default prompt pattern, tested against the line the cursor is on */
+const DEFAULT_PROMPT_PATTERN = /[$%#>❯➜λ»]\s*$/;
+
+/** Lines that ask the user something rather than wait for a command */
+const QUESTION_PATTERN = /\[y\/n\]|\(y\/n\)|\?\s*$|password|passphrase/i;
+
+/**
+ * Endings of a cursor line that may be a prompt once output goes quiet,
+ * so a shell pausing after a message of the day is not taken as ready
+ */
+const QUIET_PROMPT_PATTERN = /[$#>%❯]\s*$/;
+
+/** Characters of recent output kept so markers split across chunks are found */
+const TAIL_LENGTH = 4096;
+
+/**
+ * Watches PTY output until the shell shows its first prompt.
+ *
+ * A prompt is detected from shell integration markers, from the prompt
+ * pattern, or when output goes quiet on a line that ends like a prompt and
+ * is not a question. Anything else waits for the markers or the timeout.
+ */
+export class PromptDetector {
+  private tail = '';
+  private pattern: RegExp;
+  private quietTimer?: NodeJS.Timeout;
+  private ready = false;
+
+  /**
+   * @param promptPattern Regex source tested against the cursor line,
+   * the built-in pattern is used when empty or invalid
+   * @param onReady Called once when the prompt is detected
+   */
+  constructor(promptPattern: string | undefined, private onReady: () => void) {
+    this.pattern = DEFAULT_PROMPT_PATTERN;
+    if (promptPattern) {
+      try {
+        this.pattern = new RegExp(promptPattern);
+      } catch (error) {
+        console.warn(`[QuadTerminal] Invalid prompt pattern "${promptPattern}":`, error);
+      }
+    }
+  }
+
+  /** Feed a chunk of PTY output */
+  feed(data: string): void {
+    if (this.ready) return;
+    this.tail = (this.tail + data).slice(-TAIL_LENGTH);
+
+    if (PROMPT_MARKER_PATTERN.test(this.tail)) {
+      this.markReady();
+      return;
+    }
+
+    const cursorLine = this.getCursorLine();
+    if (cursorLine.trim() === '') {
+      this.clearQuietTimer();
+      return;
+    }
+    if (this.pattern.test(cursorLine)) {
+      this.markReady();
+      return;
+    }
+
+    // Prompts a custom pattern does not know still end in a prompt character
+    this.clearQuietTimer();
+    if (QUIET_PROMPT_PATTERN.test(cursorLine) && !QUESTION_PATTERN.test(cursorLine)) {
+      this.quietTimer = setTimeout(() => this.markReady(), PROMPT_QUIET_MS);
+    }
+  }
+
+  /** Stop watching without signalling readiness */
+  dispose(): void {
+    this.ready = true;
+    this.clearQuietTimer();
+  }
+
+  /** Text of the line the cursor is on, without escape sequences */
+  private getCursorLine(): string {
+    const text = stripAnsi(this.tail);
+    const lastLine = text.slice(text.lastIndexOf('\n') + 1);
+    return lastLine.slice(lastLine.lastIndexOf('\r') + 1);
+  }
+
+  private markReady(): void {
+    if (this.ready) return;
+    this.ready = true;
+    this.clearQuietTimer();
+    this.onReady();
+  }
+
+  private clearQuietTimer(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer);
+      this.quietTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,398 @@
+import * as vscode from 'vscode';
+import { spawn as spawnProcess } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as pty from 'node-pty';
+import { PtyHostEvent, PtyHostRequest, PtyProcess, PtySpawnOptions } from '../types';
+import { PTY_HOST_CONNECT_TIMEOUT_MS } from '../constants';
+
+/** Compiled entry point of the pty host, next to this file's directory */
+const HOST_SCRIPT = path.join(__dirname, '..', 'pty-host', 'host.js');
+
+type Listener<T> = (event: T) => void;
+
+/**
+ * Directory for the pty host's socket: the user's runtime directory when
+ * there is one, otherwise a directory of the user's in the temp directory
+ */
+function getSocketDir(): string {
+  return process.env.XDG_RUNTIME_DIR || path.join(os.tmpdir(), `quad-terminal-${os.userInfo().uid}`);
+}
+
+/**
+ * A terminal process running in the pty host. Output and exit arriving
+ * before anyone listens are kept, so nothing is lost between taking over
+ * a process and subscribing to it.
+ */
+class RemotePty implements PtyProcess {
+  pid = 0;
+  private dataListeners = new Set<Listener<string>>();
+  private exitListeners = new Set<Listener<{ exitCode: number; signal?: number }>>();
+  private pendingData: string[] = [];
+  private exitEvent?: { exitCode: number; signal?: number };
+
+  constructor(
+    readonly hostId: string,
+    private send: (request: PtyHostRequest) => void
+  ) {}
+
+  onData(listener: Listener<string>): { dispose(): void } {
+    this.dataListeners.add(listener);
+    const pending = this.pendingData;
+    this.pendingData = [];
+    pending.forEach((data) => listener(data));
+    return { dispose: () => this.dataListeners.delete(listener) };
+  }
+
+  onExit(listener: Listener<{ exitCode: number; signal?: number }>): { dispose(): void } {
+    this.exitListeners.add(listener);
+    if (this.exitEvent) listener(this.exitEvent);
+    return { dispose: () => this.exitListeners.delete(listener) };
+  }
+
+  write(data: string): void {
+    this.send({ type: 'write', id: this.hostId, data });
+  }
+
+  resize(cols: number, rows: number): void {
+    this.send({ type: 'resize', id: this.hostId, cols, rows });
+  }
+
+  kill(signal?: string): void {
+    this.send({ type: 'kill', id: this.hostId, signal });
+  }
+
+  pause(): void {
+    this.send({ type: 'pause', id: this.hostId });
+  }
+
+  resume(): void {
+    this.send({ type: 'resume', id: this.hostId });
+  }
+
+  /** Output of the process, from the pty host */
+  receiveData(data: string): void {
+    if (this.dataListeners.size === 0) {
+      this.pendingData.push(data);
+      return;
+    }
+    this.dataListeners.forEach((listener) => listener(data));
+  }
+
+  /** The process ended, or the pty host went away */
+  receiveExit(exitCode: number, signal?: number): void {
+    if (this.exitEvent) return;
+    this.exitEvent = { exitCode, signal };
+    this.exitListeners.forEach((listener) => listener(this.exitEvent!));
+  }
+}
+
+/**
+ * Starts terminal processes in the pty host, a detached process that keeps
+ * them running across extension host restarts, and takes over the ones
+ * still running after a restart. Falls back to node-pty in the extension
+ * host when the quadTerminal.ptyHost setting is off or the host cannot start.
+ */
+export class PtyHostClient implements vscode.Disposable {
+  private socketPath: string;
+  private socket?: net.Socket;
+  private connecting?: Promise<boolean>;
+  /** The pty host could not be started, processes run in the extension host */
+  private unavailable = false;
+  /** Requests sent before the connection was established */
+  private queue: PtyHostRequest[] = [];
+  private processes = new Map<string, RemotePty>();
+  private spawnErrorHandlers = new Map<string, (message: string) => void>();
+  private pendingRequests = new Map<number, (event: PtyHostEvent) => void>();
+  /** Processes asked to stop, listed by the host until they have exited */
+  private killed = new Set<string>();
+  private nextRequestId = 1;
+  private disposed = false;
+
+  /**
+   * @param storageKey Identifies the window's workspace, terminals are
+   *   reattached by the next extension host of the same workspace
+   */
+  constructor(storageKey: string) {
+    const hash = createHash('sha256')
+      .update(`${os.userInfo().username}:${storageKey}`)
+      .digest('hex')
+      .slice(0, 16);
+    this.socketPath =
+      process.platform === 'win32'
+        ? `\\\\.\\pipe\\quad-terminal-${hash}`
+        : path.join(getSocketDir(), `quad-terminal-${hash}.sock`);
+    this.unavailable = !vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<boolean>('ptyHost', true);
+  }
+
+  /**
+   * Connect to the pty host, starting it if it is not running
+   * @returns Whether processes run in the pty host
+   */
+  ready(): Promise<boolean> {
+    if (this.unavailable || this.disposed) return Promise.resolve(false);
+    if (this.socket) return Promise.resolve(true);
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Start a terminal process. Spawn failures in the pty host are reported
+   * to onSpawnError, failures in the extension host are thrown.
+   */
+  spawn(options: PtySpawnOptions, onSpawnError: (message: string) => void): PtyProcess {
+    if (this.unavailable || this.disposed) {
+      return pty.spawn(options.shell, options.args, {
+        name: options.env.TERM || 'xterm-256color',
+        cols: options.cols,
+        rows: options.rows,
+        cwd: options.cwd,
+        env: options.env,
+      });
+    }
+
+    const id = randomUUID();
+    const remote = new RemotePty(id, (request) => this.send(request));
+    this.processes.set(id, remote);
+    this.spawnErrorHandlers.set(id, onSpawnError);
+    this.send({ type: 'spawn', id, options });
+    return remote;
+  }
+
+  /** Ids of the processes running in the pty host */
+  async listProcesses(): Promise<string[]> {
+    if (!(await this.ready())) return [];
+    const event = await this.request({ type: 'list', requestId: this.nextRequestId++ });
+    return event.type === 'list' ? event.ids.filter((id) => !this.killed.has(id)) : [];
+  }
+
+  /**
+   * Take over a process left running by a previous extension host
+   * @returns The process and the output it kept, or undefined if it is gone
+   */
+  async attach(hostId: string): Promise<{ process: PtyProcess; scrollback: string } | undefined> {
+    if (!(await this.ready())) return undefined;
+    const event = await this.request({ type: 'attach', requestId: this.nextRequestId++, id: hostId });
+    if (event.type !== 'attached' || event.pid === undefined) return undefined;
+
+    const remote = this.processes.get(hostId) ?? new RemotePty(hostId, (request) => this.send(request));
+    remote.pid = event.pid;
+    this.processes.set(hostId, remote);
+    return { process: remote, scrollback: event.scrollback ?? '' };
+  }
+
+  /** Kill a process in the pty host that nobody took over */
+  kill(hostId: string): void {
+    this.send({ type: 'kill', id: hostId });
+  }
+
+  /**
+   * Disconnect without stopping the processes, the pty host keeps them
+   * running for the next extension host
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.socket?.end();
+    this.socket = undefined;
+  }
+
+  private async connect(): Promise<boolean> {
+    let socket: net.Socket | undefined;
+    if (this.createSocketDir()) {
+      socket = await this.tryConnect();
+      if (!socket) {
+        this.startHost();
+        const deadline = Date.now() + PTY_HOST_CONNECT_TIMEOUT_MS;
+        while (!socket && Date.now() < deadline && !this.disposed) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          socket = await this.tryConnect();
+        }
+      }
+    }
+
+    if (!socket || this.disposed) {
+      socket?.destroy();
+      if (!this.disposed) {
+        console.error(`[PtyHostClient] Could not connect to the pty host at ${this.socketPath}`);
+        vscode.window.showWarningMessage(
+          'Quad Terminal could not start its terminal host, terminals will stop when the extension host restarts.'
+        );
+      }
+      this.unavailable = true;
+      this.failQueuedSpawns();
+      return false;
+    }
+
+    this.attachSocket(socket);
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach((request) => this.send(request));
+    return true;
+  }
+
+  /**
+   * Create the directory the socket is in, only the user may access it so
+   * nobody else can connect to the terminals
+   * @returns Whether the directory exists and is private to the user
+   */
+  private createSocketDir(): boolean {
+    if (process.platform === 'win32') return true;
+    const dir = path.dirname(this.socketPath);
+    try {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      // The directory may have been created by someone else before us
+      const stats = fs.lstatSync(dir);
+      if (!stats.isDirectory() || stats.uid !== process.getuid?.() || (stats.mode & 0o077) !== 0) {
+        console.error(`[PtyHostClient] ${dir} is not a private directory of the user`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`[PtyHostClient] Failed to create ${dir}:`, error);
+      return false;
+    }
+  }
+
+  private tryConnect(): Promise<net.Socket | undefined> {
+    return new Promise((resolve) => {
+      const socket = net.connect(this.socketPath);
+      socket.once('connect', () => {
+        socket.removeAllListeners('error');
+        resolve(socket);
+      });
+      socket.once('error', () => {
+        socket.destroy();
+        resolve(undefined);
+      });
+    });
+  }
+
+  private startHost(): void {
+    console.log(`[PtyHostClient] Starting pty host at ${this.socketPath}`);
+    const child = spawnProcess(process.execPath, [HOST_SCRIPT, this.socketPath], {
+      detached: true,
+      stdio: 'ignore',
+      windowsHide: true,
+      // VS Code's executable runs scripts as plain Node.js with this set
+      env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+    });
+    child.on('error', (error) => console.error('[PtyHostClient] Failed to start the pty host:', error));
+    child.unref();
+  }
+
+  private attachSocket(socket: net.Socket): void {
+    this.socket = socket;
+    let buffered = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 1);
+        try {
+          this.handle(JSON.parse(line) as PtyHostEvent);
+        } catch (error) {
+          console.warn('[PtyHostClient] Invalid message from the pty host:', error);
+        }
+      }
+    });
+    socket.on('error', (error) => console.warn('[PtyHostClient] Connection error:', error));
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      if (this.disposed) return;
+
+      // The host is gone and its processes with it
+      console.warn('[PtyHostClient] Lost the connection to the pty host');
+      for (const remote of this.processes.values()) {
+        remote.receiveExit(1);
+      }
+      this.processes.clear();
+      this.spawnErrorHandlers.clear();
+      this.abandonRequests();
+    });
+  }
+
+  private handle(event: PtyHostEvent): void {
+    switch (event.type) {
+      case 'spawned': {
+        const remote = this.processes.get(event.id);
+        if (remote) remote.pid = event.pid;
+        this.spawnErrorHandlers.delete(event.id);
+        break;
+      }
+      case 'spawnError':
+        this.processes.delete(event.id);
+        this.spawnErrorHandlers.get(event.id)?.(event.message);
+        this.spawnErrorHandlers.delete(event.id);
+        break;
+      case 'data':
+        this.processes.get(event.id)?.receiveData(event.data);
+        break;
+      case 'exit':
+        this.processes.get(event.id)?.receiveExit(event.exitCode, event.signal);
+        this.processes.delete(event.id);
+        this.killed.delete(event.id);
+        break;
+      case 'list':
+      case 'attached':
+        this.pendingRequests.get(event.requestId)?.(event);
+        this.pendingRequests.delete(event.requestId);
+        break;
+    }
+  }
+
+  private request(request: Extract<PtyHostRequest, { requestId: number }>): Promise<PtyHostEvent> {
+    return new Promise((resolve) => {
+      this.pendingRequests.set(request.requestId, resolve);
+      this.send(request);
+    });
+  }
+
+  private send(request: PtyHostRequest): void {
+    if (request.type === 'kill') {
+      this.killed.add(request.id);
+    }
+    if (this.socket) {
+      this.socket.write(`${JSON.stringify(request)}\n`);
+      return;
+    }
+    // Requests for processes of a host that went away are dropped,
+    // a spawn reconnects and starts a new host if needed
+    if (request.type === 'spawn' || 'requestId' in request || this.connecting) {
+      this.queue.push(request);
+      this.ready();
+    }
+  }
+
+  /** Answer requests the pty host will never answer */
+  private abandonRequests(): void {
+    for (const [requestId, resolve] of this.pendingRequests) {
+      resolve({ type: 'list', requestId, ids: [] });
+    }
+    this.pendingRequests.clear();
+  }
+
+  /** Report spawns that were waiting for a host that never came up */
+  private failQueuedSpawns(): void {
+    for (const request of this.queue) {
+      if (request.type === 'spawn') {
+        this.spawnErrorHandlers.get(request.id)?.('The terminal host could not be started.');
+      }
+    }
+    this.queue = [];
+    this.processes.clear();
+    this.spawnErrorHandlers.clear();
+    this.abandonRequests();
+  }
+}
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PtyProcess, TerminalStartEvent } from '../types';
+import { REVIEW_BASELINES_STATE_KEY } from '../constants';
+import { getRepoRoot, readFileAt, runGit, writeWorkingTree } from './git';
+import { TabManager } from './tab-manager';
+import { TerminalManager } from './terminal-manager';
+import { pickTerminal } from './terminal-picker';
+
+/** URI scheme of baseline file contents shown on the left of diffs */
+const BASELINE_SCHEME = 'quad-terminal-baseline';
+
+/**
+ * Git state of a terminal's repository when the terminal started
+ */
+interface Baseline {
+  /** PTY process the baseline belongs to, a restart takes a new one */
+  ptyProcess: PtyProcess;
+  repoRoot: string;
+  /** Tree of the working tree at start, undefined if the snapshot failed */
+  tree: Promise<string | undefined>;
+}
+
+/**
+ * Baseline of a terminal in the pty host as saved to workspace state, so a
+ * reload keeps reviewing against the tree taken when the terminal started
+ */
+interface SavedBaseline {
+  repoRoot: string;
+  tree: string;
+}
+
+/**
+ * A file changed since the baseline, path relative to the repository
+ */
+interface ChangedFile {
+  status: 'added' | 'modified' | 'deleted';
+  path: string;
+}
+
+interface ReviewItem extends vscode.QuickPickItem {
+  file?: ChangedFile;
+  action?: 'stage' | 'discard';
+}
+
+/** Quick pick icon per change */
+const STATUS_ICONS: Record<ChangedFile['status'], string> = {
+  added: '$(diff-added)',
+  modified: '$(diff-modified)',
+  deleted: '$(diff-removed)',
+};
+
+/**
+ * Snapshots the git working tree when a terminal starts and reviews what
+ * changed since then: diffs against the snapshot, stage all or discard all
+ */
+export class ReviewService implements vscode.Disposable, vscode.TextDocumentContentProvider {
+  /** Baselines keyed by "tabId:terminalId" */
+  private baselines = new Map<string, Baseline>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private tabManager: TabManager,
+    terminalManager: TerminalManager,
+    private workspaceState: vscode.Memento
+  ) {
+    this.disposables.push(
+      terminalManager.onDidStartTerminal((event) => this.snapshot(event)),
+      terminalManager.onDidReattachTerminal((event) => this.restore(event)),
+      vscode.workspace.registerTextDocumentContentProvider(BASELINE_SCHEME, this)
+    );
+  }
+
+  /** Content of a file in a baseline tree, for the left side of a diff */
+  provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { repoRoot, tree } = JSON.parse(uri.query);
+    return readFileAt(repoRoot, tree, uri.path.replace(/^\//, ''));
+  }
+
+  /**
+   * List the files a terminal changed since it started, asking which
+   * terminal when not given
+   */
+  async reviewChanges(tabId?: number, terminalId?: number): Promise<void> {
+    if (tabId === undefined || terminalId === undefined) {
+      const picked = await pickTerminal(
+        this.tabManager,
+        'Select a terminal to review',
+        (t, id) => this.getBaseline(t, id) !== undefined
+      );
+      if (!picked) return;
+      ({ tabId, terminalId } = picked);
+    }
+
+    const baseline = this.getBaseline(tabId, terminalId);
+    const base = await baseline?.tree;
+    if (!baseline || !base) {
+      vscode.window.showInformationMessage(
+        'Changes can only be reviewed for terminals started in a git repository.'
+      );
+      return;
+    }
+
+    let changes: ChangedFile[];
+    try {
+      changes = await this.getChanges(baseline.repoRoot, base);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to list changes: ${(error as Error).message}`);
+      return;
+    }
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage(`Terminal ${terminalId + 1} has not changed any files yet.`);
+      return;
+    }
+
+    await this.showChanges(baseline.repoRoot, base, changes, terminalId);
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private snapshot({ tabId, terminalId, projectPath }: TerminalStartEvent): void {
+    const key = this.key(tabId, terminalId);
+    this.baselines.delete(key);
+    const ptyProcess = this.tabManager.getTabState(tabId)?.ptyProcesses.get(terminalId);
+    if (!ptyProcess) return;
+
+    getRepoRoot(projectPath).then((repoRoot) => {
+      if (!repoRoot) return;
+      // The terminal may have been restarted meanwhile
+      if (this.tabManager.getTabState(tabId)?.ptyProcesses.get(terminalId) !== ptyProcess) return;
+
+      const tree = writeWorkingTree(repoRoot).catch((error) => {
+        console.warn('[ReviewService] Failed to snapshot', repoRoot, error);
+        return undefined;
+      });
+      this.baselines.set(key, { ptyProcess, repoRoot, tree });
+      tree.then((id) => {
+        if (id && ptyProcess.hostId) this.saveBaseline(ptyProcess.hostId, { repoRoot, tree: id });
+      });
+    });
+  }
+
+  /**
+   * Take the saved baseline of a terminal reattached after a reload, the
+   * files it changed before the reload are still reviewed
+   */
+  private restore({ tabId, terminalId }: TerminalStartEvent): void {
+    const key = this.key(tabId, terminalId);
+    this.baselines.delete(key);
+    const ptyProcess = this.tabManager.getTabState(tabId)?.ptyProcesses.get(terminalId);
+    const saved = ptyProcess?.hostId ? this.getSavedBaselines()[ptyProcess.hostId] : undefined;
+    if (!ptyProcess || !saved) return;
+
+    this.baselines.set(key, { ptyProcess, repoRoot: saved.repoRoot, tree: Promise.resolve(saved.tree) });
+  }
+
+  /** Save a baseline, dropping those of processes no longer in the grid */
+  private saveBaseline(hostId: string, baseline: SavedBaseline): void {
+    const running = new Set<string>();
+    for (const tabState of this.tabManager.getAllTabs().values()) {
+      for (const ptyProcess of tabState.ptyProcesses.values()) {
+        if (ptyProcess.hostId) running.add(ptyProcess.hostId);
+      }
+    }
+    const saved: Record<string, SavedBaseline> = { [hostId]: baseline };
+    for (const [id, other] of Object.entries(this.getSavedBaselines())) {
+      if (running.has(id) && id !== hostId) saved[id] = other;
+    }
+    this.workspaceState.update(REVIEW_BASELINES_STATE_KEY, saved);
+  }
+
+  private getSavedBaselines(): Record<string, SavedBaseline> {
+    return this.workspaceState.get<Record<string, SavedBaseline>>(REVIEW_BASELINES_STATE_KEY, {});
+  }
+
+  private getBaseline(tabId: number, terminalId: number): Baseline | undefined {
+    const baseline = this.baselines.get(this.key(tabId, terminalId));
+    const ptyProcess = this.tabManager.getTabState(tabId)?.ptyProcesses.get(terminalId);
+    return baseline && baseline.ptyProcess === ptyProcess ? baseline : undefined;
+  }
+
+  private async getChanges(repoRoot: string, base: string): Promise<ChangedFile[]> {
+    const current = await writeWorkingTree(repoRoot);
+    const output = await runGit(repoRoot, [
+      'diff-tree', '-r', '-z', '--no-renames', '--name-status', base, current,
+    ]);
+
+    // -z output alternates status letters and paths, separated by NUL
+    const fields = output.split('\0').filter((f) => f !== '');
+    const changes: ChangedFile[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const letter = fields[i][0];
+      const status = letter === 'A' ? 'added' : letter === 'D' ? 'deleted' : 'modified';
+      changes.push({ status, path: fields[i + 1] });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private showChanges(
+    repoRoot: string,
+    base: string,
+    changes: ChangedFile[],
+    terminalId: number
+  ): Promise<void> {
+    const items: ReviewItem[] = [
+      { label: '$(add) Stage All', description: 'git add the changed files', action: 'stage' },
+      { label: '$(discard) Discard All', description: 'Restore the files as they were', action: 'discard' },
+      { label: 'Changed files', kind: vscode.QuickPickItemKind.Separator },
+      ...changes.map((file) => ({
+        label: `${STATUS_ICONS[file.status]} ${path.basename(file.path)}`,
+        description: path.dirname(file.path) === '.' ? file.status : `${path.dirname(file.path)} · ${file.status}`,
+        file,
+      })),
+    ];
+
+    return new Promise((resolve) => {
+      const quickPick = vscode.window.createQuickPick<ReviewItem>();
+      quickPick.title = `Changes of Terminal ${terminalId + 1} since it started`;
+      quickPick.placeholder = 'Select a file to open its diff';
+      quickPick.matchOnDescription = true;
+      // Stay open while diffs are opened next to it
+      quickPick.ignoreFocusOut = true;
+      quickPick.items = items;
+
+      quickPick.onDidAccept(async () => {
+        const [item] = quickPick.selectedItems;
+        if (item?.file) {
+          await this.openDiff(repoRoot, base, item.file);
+          return;
+        }
+        if (!item?.action) return;
+
+        quickPick.hide();
+        if (item.action === 'stage') {
+          await this.stageAll(repoRoot, changes);
+        } else {
+          await this.discardAll(repoRoot, base, changes);
+        }
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        resolve();
+      });
+      quickPick.show();
+    });
+  }
+
+  private async openDiff(repoRoot: string, base: string, file: ChangedFile): Promise<void> {
+    const baselineUri = vscode.Uri.from({
+      scheme: BASELINE_SCHEME,
+      path: `/${file.path}`,
+      query: JSON.stringify({ repoRoot, tree: base }),
+    });
+    const options: vscode.TextDocumentShowOptions = { preview: true, preserveFocus: true };
+
+    if (file.status === 'deleted') {
+      await vscode.window.showTextDocument(baselineUri, options);
+      return;
+    }
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      baselineUri,
+      vscode.Uri.file(path.join(repoRoot, file.path)),
+      `${path.basename(file.path)} (since terminal start)`,
+      options
+    );
+  }
+
+  private async stageAll(repoRoot: string, changes: ChangedFile[]): Promise<void> {
+    try {
+      await runGit(repoRoot, ['--literal-pathspecs', 'add', '--all', '--', ...changes.map((c) => c.path)]);
+      vscode.window.showInformationMessage(`Staged ${changes.length} changed file${changes.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to stage changes: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Put every changed file back as it was at the baseline, deleting added ones
+   */
+  private async discardAll(repoRoot: string, base: string, changes: ChangedFile[]): Promise<void> {
+    const answer = await vscode.window.showWarningMessage(
+      `Discard changes to ${changes.length} file${changes.length === 1 ? '' : 's'}? This cannot be undone.`,
+      { modal: true },
+      'Discard All'
+    );
+    if (answer !== 'Discard All') return;
+
+    try {
+      const restored = changes.filter((c) => c.status !== 'added').map((c) => c.path);
+      if (restored.length > 0) {
+        await runGit(repoRoot, [
+          '--literal-pathspecs', 'restore', `--source=${base}`, '--worktree', '--', ...restored,
+        ]);
+      }
+      for (const change of changes) {
+        if (change.status === 'added') {
+          await fs.promises.rm(path.join(repoRoot, change.path), { force: true });
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to discard changes: ${(error as Error).message}`);
+    }
+  }
+
+  private key(tabId: number, terminalId: number): string {
+    return `${tabId}:${terminalId}`;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Bounded buffer of raw PTY output, dropping the oldest output once
+ * it grows past its size so a rebuilt webview can be replayed
+ */
+export class ScrollbackBuffer {
+  private chunks: string[] = [];
+  private length = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  /** Number of characters currently held */
+  get size(): number {
+    return this.length;
+  }
+
+  append(data: string): void {
+    if (this.maxSize <= 0 || !data) return;
+
+    this.chunks.push(data);
+    this.length += data.length;
+    this.trim();
+  }
+
+  /** All buffered output, oldest first */
+  toString(): string {
+    // Join once so repeated replays do not walk every chunk again
+    if (this.chunks.length > 1) {
+      this.chunks = [this.chunks.join('')];
+    }
+    return this.chunks[0] ?? '';
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.length = 0;
+  }
+
+  private trim(): void {
+    while (this.length > this.maxSize && this.chunks.length > 0) {
+      const first = this.chunks[0];
+      const excess = this.length - this.maxSize;
+      if (first.length <= excess) {
+        this.chunks.shift();
+        this.length -= first.length;
+        continue;
+      }
+
+      const cut = this.findCut(first, excess);
+      if (cut >= first.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = first.slice(cut);
+      }
+      this.length -= cut;
+    }
+  }
+
+  /**
+   * Where to cut the oldest output, at or after excess: after the next line
+   * break, else before the next escape sequence or carriage return so replay
+   * does not start inside a sequence, else at excess itself
+   */
+  private findCut(text: string, excess: number): number {
+    const lineBreak = text.indexOf('\n', excess);
+    if (lineBreak !== -1) return lineBreak + 1;
+
+    const boundary = text.slice(excess).search(/[\x1b\r]/);
+    if (boundary !== -1) return excess + boundary;
+
+    // Do not split a surrogate pair
+    const code = text.charCodeAt(excess);
+    return code >= 0xdc00 && code <= 0xdfff ? excess + 1 : excess;
+  }
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SearchMatch } from '../types';
+import { SEARCH_RESULTS_TIMEOUT_MS } from '../constants';
+import { TabManager } from './tab-manager';
+import { WebviewMessenger } from './webview-messenger';
+
+/**
+ * Searches the scrollback of every terminal in every tab and jumps to
+ * the chosen match. The webview owns the rendered buffers, so searches
+ * are sent there and answered with a searchResults message.
+ */
+export class SearchService {
+  private nextRequestId = 1;
+  private pending = new Map<number, (matches: SearchMatch[]) => void>();
+
+  constructor(
+    private tabManager: TabManager,
+    private messenger: WebviewMessenger,
+    private getView: () => vscode.WebviewView | undefined
+  ) {}
+
+  /**
+   * Ask for a query, search all terminals and reveal the picked match
+   */
+  async searchAll(): Promise<void> {
+    if (!this.getView()) {
+      vscode.window.showInformationMessage('Open Quad Terminal to search its terminals.');
+      return;
+    }
+
+    const input = await vscode.window.showInputBox({
+      prompt: 'Search all terminals. Use /pattern/ for a regular expression, /pattern/i to ignore case',
+      placeHolder: 'Text to find',
+    });
+    if (!input) return;
+
+    const query = this.parseQuery(input);
+    if (!query) {
+      vscode.window.showErrorMessage(`Invalid regular expression: ${input}`);
+      return;
+    }
+
+    const matches = await this.requestMatches(query.pattern, query.regex, query.caseSensitive);
+    if (matches.length === 0) {
+      vscode.window.showInformationMessage(`No matches for ${input}`);
+      return;
+    }
+
+    const items = matches.map((match) => {
+      const projectPath = this.tabManager
+        .getTabState(match.tabId)
+        ?.terminalProjects.get(match.terminalId);
+      return {
+        label: match.text.trim() || ' ',
+        description: `Tab ${match.tabId} · Terminal ${match.terminalId + 1}${projectPath ? ` · ${path.basename(projectPath)}` : ''}`,
+        detail: `Line ${match.line + 1}`,
+        match,
+      };
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `${matches.length} match(es) for ${input}`,
+      matchOnDescription: true,
+    });
+    if (!selected) return;
+
+    const { tabId, terminalId, line, column, length } = selected.match;
+    await vscode.commands.executeCommand('quadTerminal.grid.focus');
+    this.tabManager.switchTab(tabId);
+    this.messenger.sendRevealLine(tabId, terminalId, line, column, length);
+  }
+
+  /**
+   * Resolve the pending search a searchResults message answers
+   */
+  handleResults(requestId: number, matches: SearchMatch[]): void {
+    const resolve = this.pending.get(requestId);
+    if (resolve) {
+      this.pending.delete(requestId);
+      resolve(matches);
+    }
+  }
+
+  private requestMatches(
+    pattern: string,
+    regex: boolean,
+    caseSensitive: boolean
+  ): Promise<SearchMatch[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      // Give up with no results if the webview never answers
+      const timeout = setTimeout(() => this.handleResults(requestId, []), SEARCH_RESULTS_TIMEOUT_MS);
+      this.pending.set(requestId, (matches) => {
+        clearTimeout(timeout);
+        resolve(matches);
+      });
+      this.messenger.sendSearchAll(requestId, pattern, regex, caseSensitive);
+    });
+  }
+
+  /**
+   * Literal text matches case-insensitively unless it contains capitals,
+   * /pattern/flags is a regular expression
+   */
+  private parseQuery(
+    input: string
+  ): { pattern: string; regex: boolean; caseSensitive: boolean } | undefined {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(input);
+    if (!regexMatch) {
+      return { pattern: input, regex: false, caseSensitive: input !== input.toLowerCase() };
+    }
+
+    const [, pattern, flags] = regexMatch;
+    try {
+      new RegExp(pattern);
+    } catch {
+      return undefined;
+    }
+    return { pattern, regex: true, caseSensitive: !flags.includes('i') };
+  }
+}
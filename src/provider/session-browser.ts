@@ -0,0 +1,418 @@
+import * as vscode from 'vscode';
+import { Session, SessionInfo, SessionPreview } from '../types';
+import { SESSION_PAGE_SIZE, SESSION_SEARCH_DEBOUNCE_MS } from '../constants';
+import { SessionService, getRelativeTime } from './session-service';
+
+type SessionSort = 'date' | 'messages';
+
+type SessionAction = 'rename' | 'fork' | 'archive' | 'delete';
+
+/**
+ * What to start after picking from the session lists
+ */
+export type SessionChoice =
+  | { kind: 'new'; worktree?: boolean }
+  | { kind: 'empty' }
+  | { kind: 'resume'; sessionId: string; fork: boolean };
+
+interface SessionItem extends vscode.QuickPickItem {
+  session?: SessionInfo;
+  loadMore?: boolean;
+}
+
+interface ActionButton extends vscode.QuickInputButton {
+  action: SessionAction;
+}
+
+interface PreviewItem extends vscode.QuickPickItem {
+  action?: 'resume' | 'back' | SessionAction;
+}
+
+/** Buttons shown on every session entry */
+const RENAME_BUTTON: ActionButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Rename', action: 'rename' };
+const FORK_BUTTON: ActionButton = { iconPath: new vscode.ThemeIcon('repo-forked'), tooltip: 'Fork into a new terminal', action: 'fork' };
+const ARCHIVE_BUTTON: ActionButton = { iconPath: new vscode.ThemeIcon('archive'), tooltip: 'Archive', action: 'archive' };
+const UNARCHIVE_BUTTON: ActionButton = { iconPath: new vscode.ThemeIcon('inbox'), tooltip: 'Unarchive', action: 'archive' };
+const DELETE_BUTTON: ActionButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete', action: 'delete' };
+
+/** State of the list step kept while going back and forth to a preview */
+interface BrowserState {
+  sessions: SessionInfo[];
+  sort: SessionSort;
+  query: string;
+  matches?: Set<string>;
+  shown: number;
+  showArchived: boolean;
+}
+
+/** Result of one list step */
+type ListResult = { session: SessionInfo; action?: SessionAction } | undefined;
+
+/**
+ * Quick picks for choosing a Claude session: the short list in the project
+ * picker and a multi-step browser with paging, full-text search, sorting,
+ * previews and rename/fork/archive/delete actions
+ */
+export class SessionBrowser {
+  constructor(
+    private sessionService: SessionService,
+    private isSessionInUse: (sessionId: string) => boolean
+  ) {}
+
+  /**
+   * Pick how to start a terminal in a project: a new session (in a new git
+   * worktree when offered), an empty shell, one of the recent sessions or
+   * one found in the browser
+   */
+  async pickLaunch(
+    projectPath: string,
+    projectName: string,
+    offerWorktree = false
+  ): Promise<SessionChoice | undefined> {
+    for (;;) {
+      const sessions = await this.sessionService.getSessions(projectPath, 5);
+      const picked = await this.showRecent(sessions, projectName, offerWorktree);
+      if (!picked) return undefined;
+      if ('choice' in picked) return picked.choice;
+      if ('browse' in picked) return this.pick(projectPath, projectName);
+
+      // Recent sessions only carry ids, the actions need the full entry
+      const session = (await this.sessionService.listSessions(projectPath)).find(
+        (s) => s.sessionId === picked.sessionId
+      );
+      if (!session) continue;
+      if (picked.action === 'fork') {
+        return { kind: 'resume', sessionId: session.sessionId, fork: true };
+      }
+      await this.runAction(picked.action, session);
+    }
+  }
+
+  /**
+   * Browse the sessions of a project, resolving to the session to resume or fork
+   */
+  async pick(projectPath: string, projectName: string): Promise<SessionChoice | undefined> {
+    const state: BrowserState = {
+      sessions: await this.sessionService.listSessions(projectPath),
+      sort: 'date',
+      query: '',
+      shown: SESSION_PAGE_SIZE,
+      showArchived: false,
+    };
+    if (state.sessions.length === 0) {
+      vscode.window.showInformationMessage(`No Claude sessions found for ${projectName}.`);
+      return undefined;
+    }
+
+    for (;;) {
+      const result = await this.showList(state, projectName);
+      if (!result) return undefined;
+
+      const { session } = result;
+      const action =
+        result.action ?? (await this.showPreview(await this.sessionService.getPreview(session)));
+      if (action === undefined) return undefined;
+
+      if (action === 'resume' || action === 'fork') {
+        return { kind: 'resume', sessionId: session.sessionId, fork: action === 'fork' };
+      }
+      if (action !== 'back') {
+        await this.runAction(action, session);
+      }
+
+      // Titles, archive flags or the set of sessions may have changed
+      state.sessions = await this.sessionService.listSessions(projectPath);
+      state.matches = undefined;
+    }
+  }
+
+  private showRecent(
+    sessions: Session[],
+    projectName: string,
+    offerWorktree: boolean
+  ): Promise<
+    | { choice: SessionChoice }
+    | { browse: true }
+    | { sessionId: string; action: SessionAction }
+    | undefined
+  > {
+    type RecentItem = vscode.QuickPickItem & { choice?: SessionChoice; browse?: boolean };
+
+    const items: RecentItem[] = [
+      { label: 'New Session', choice: { kind: 'new' } },
+      { label: 'Empty Terminal', description: 'Shell only, no Claude', choice: { kind: 'empty' } },
+    ];
+    if (offerWorktree) {
+      items.splice(1, 0, {
+        label: '$(git-branch) New Session in Worktree...',
+        description: 'On a new branch in its own working tree',
+        choice: { kind: 'new', worktree: true },
+      });
+    }
+    if (sessions.length > 0) {
+      items.push({ label: 'Recent Sessions', kind: vscode.QuickPickItemKind.Separator });
+      sessions.forEach((s) => {
+        items.push({
+          label: s.title || s.lastMessage,
+          description: s.lastModified,
+          detail: s.title ? s.lastMessage : undefined,
+          buttons: [RENAME_BUTTON, FORK_BUTTON, ARCHIVE_BUTTON, DELETE_BUTTON],
+          choice: { kind: 'resume', sessionId: s.sessionId, fork: false },
+        });
+      });
+      items.push({
+        label: '$(search) Browse All Sessions...',
+        description: 'Search, sort and preview',
+        browse: true,
+      });
+    }
+
+    return new Promise((resolve) => {
+      const quickPick = vscode.window.createQuickPick<RecentItem>();
+      quickPick.placeholder = `Select session for ${projectName}`;
+      quickPick.items = items;
+      let result: Awaited<ReturnType<SessionBrowser['showRecent']>>;
+
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (!item) return;
+        result = item.browse ? { browse: true } : item.choice ? { choice: item.choice } : undefined;
+        quickPick.hide();
+      });
+      quickPick.onDidTriggerItemButton(({ item, button }) => {
+        if (item.choice?.kind !== 'resume') return;
+        result = { sessionId: item.choice.sessionId, action: (button as ActionButton).action };
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        resolve(result);
+      });
+      quickPick.show();
+    });
+  }
+
+  private showList(state: BrowserState, projectName: string): Promise<ListResult> {
+    return new Promise((resolve) => {
+      const quickPick = vscode.window.createQuickPick<SessionItem>();
+      quickPick.title = `${state.showArchived ? 'Archived sessions' : 'Sessions'} · ${projectName}`;
+      quickPick.placeholder = 'Type to search prompts and responses of every session';
+      quickPick.matchOnDescription = true;
+      quickPick.matchOnDetail = true;
+      quickPick.value = state.query;
+
+      let searchTimer: NodeJS.Timeout | undefined;
+      let searchGeneration = 0;
+      let result: ListResult;
+
+      const render = () => {
+        quickPick.title = `${state.showArchived ? 'Archived sessions' : 'Sessions'} · ${projectName}`;
+        quickPick.items = this.buildItems(state);
+        quickPick.buttons = [
+          state.sort === 'date'
+            ? { iconPath: new vscode.ThemeIcon('list-ordered'), tooltip: 'Sort by message count' }
+            : { iconPath: new vscode.ThemeIcon('history'), tooltip: 'Sort by date' },
+          state.showArchived
+            ? { iconPath: new vscode.ThemeIcon('inbox'), tooltip: 'Show sessions' }
+            : { iconPath: new vscode.ThemeIcon('archive'), tooltip: 'Show archived sessions' },
+        ];
+      };
+
+      const search = () => {
+        const generation = ++searchGeneration;
+        const query = state.query.trim();
+        if (!query) {
+          state.matches = undefined;
+          quickPick.busy = false;
+          render();
+          return;
+        }
+
+        quickPick.busy = true;
+        this.sessionService
+          .searchSessions(state.sessions, query, () => generation !== searchGeneration)
+          .then((matches) => {
+            if (generation !== searchGeneration) return;
+            state.matches = matches;
+            state.shown = SESSION_PAGE_SIZE;
+            quickPick.busy = false;
+            render();
+          });
+      };
+
+      quickPick.onDidChangeValue((value) => {
+        state.query = value;
+        if (searchTimer) clearTimeout(searchTimer);
+        searchTimer = setTimeout(search, SESSION_SEARCH_DEBOUNCE_MS);
+      });
+
+      quickPick.onDidTriggerButton((button) => {
+        if (button === quickPick.buttons[0]) {
+          state.sort = state.sort === 'date' ? 'messages' : 'date';
+        } else {
+          state.showArchived = !state.showArchived;
+          state.shown = SESSION_PAGE_SIZE;
+        }
+        render();
+      });
+
+      quickPick.onDidTriggerItemButton(({ item, button }) => {
+        if (!item.session) return;
+        result = { session: item.session, action: (button as ActionButton).action };
+        quickPick.hide();
+      });
+
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (!item) return;
+        if (item.loadMore) {
+          state.shown += SESSION_PAGE_SIZE;
+          render();
+          return;
+        }
+        if (item.session) {
+          result = { session: item.session };
+          quickPick.hide();
+        }
+      });
+
+      quickPick.onDidHide(() => {
+        if (searchTimer) clearTimeout(searchTimer);
+        searchGeneration++;
+        quickPick.dispose();
+        resolve(result);
+      });
+
+      render();
+      if (state.query && !state.matches) search();
+      quickPick.show();
+    });
+  }
+
+  private buildItems(state: BrowserState): SessionItem[] {
+    const sorted = state.sessions
+      .filter((s) => !!s.archived === state.showArchived)
+      .sort((a, b) =>
+        state.sort === 'date'
+          ? b.modified - a.modified
+          : b.messageCount - a.messageCount || b.modified - a.modified
+      );
+    const filtered = state.matches
+      ? sorted.filter((s) => state.matches?.has(s.sessionId))
+      : sorted;
+
+    const items: SessionItem[] = filtered.slice(0, state.shown).map((session) => ({
+      label: this.truncate(this.getTitle(session), 80),
+      description: getRelativeTime(new Date(session.modified)),
+      detail: [
+        `${session.messageCount} messages`,
+        session.gitBranch ? `$(git-branch) ${session.gitBranch}` : undefined,
+        (session.title || session.summary) && session.firstPrompt
+          ? this.truncate(session.firstPrompt, 80)
+          : undefined,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      buttons: [
+        RENAME_BUTTON,
+        FORK_BUTTON,
+        session.archived ? UNARCHIVE_BUTTON : ARCHIVE_BUTTON,
+        DELETE_BUTTON,
+      ],
+      // Full-text matches may not contain the query in the label
+      alwaysShow: !!state.matches,
+      session,
+    }));
+
+    if (filtered.length > state.shown) {
+      items.push({
+        label: `$(ellipsis) Show ${Math.min(SESSION_PAGE_SIZE, filtered.length - state.shown)} more`,
+        description: `${state.shown} of ${filtered.length}`,
+        alwaysShow: true,
+        loadMore: true,
+      });
+    }
+    return items;
+  }
+
+  private async showPreview(preview: SessionPreview): Promise<PreviewItem['action']> {
+    const { usage } = preview;
+    const items: PreviewItem[] = [
+      { label: '$(play) Resume Session', action: 'resume' },
+      { label: '$(repo-forked) Fork into New Terminal', action: 'fork' },
+      { label: '$(edit) Rename...', action: 'rename' },
+      { label: preview.archived ? '$(inbox) Unarchive' : '$(archive) Archive', action: 'archive' },
+      { label: '$(trash) Delete...', action: 'delete' },
+      { label: '$(arrow-left) Back to Sessions', action: 'back' },
+      { label: 'Preview', kind: vscode.QuickPickItemKind.Separator },
+      { label: 'First prompt', detail: this.truncate(preview.firstPrompt, 300) || '(none)' },
+      { label: 'Last prompt', detail: this.truncate(preview.lastPrompt ?? '', 300) || '(none)' },
+      { label: 'Last response', detail: this.truncate(preview.lastResponse ?? '', 300) || '(none)' },
+      { label: 'Git branch', description: preview.gitBranch ?? 'unknown' },
+      {
+        label: 'Tokens',
+        description:
+          `${usage.inputTokens.toLocaleString()} in · ${usage.outputTokens.toLocaleString()} out · ` +
+          `${usage.cacheReadTokens.toLocaleString()} cache read · ${usage.cacheCreationTokens.toLocaleString()} cache write`,
+      },
+      {
+        label: 'Messages',
+        description: `${preview.messageCount}, last active ${getRelativeTime(new Date(preview.modified))}`,
+      },
+    ];
+
+    // Picking one of the preview rows just shows the preview again
+    for (;;) {
+      const selected = await vscode.window.showQuickPick(items, {
+        title: this.truncate(this.getTitle(preview), 80),
+        placeHolder: 'Resume this session or go back',
+        matchOnDetail: true,
+      });
+      if (!selected) return undefined;
+      if (selected.action) return selected.action;
+    }
+  }
+
+  /**
+   * Rename, archive or delete a session, forks are started by the caller
+   */
+  private async runAction(action: SessionAction, session: SessionInfo): Promise<void> {
+    if (action === 'rename') {
+      const title = await vscode.window.showInputBox({
+        prompt: 'Session title, leave empty to remove it',
+        value: session.title ?? '',
+      });
+      if (title !== undefined) {
+        this.sessionService.renameSession(session.sessionId, title);
+      }
+    } else if (action === 'archive') {
+      this.sessionService.archiveSession(session.sessionId, !session.archived);
+    } else if (action === 'delete') {
+      if (this.isSessionInUse(session.sessionId)) {
+        vscode.window.showWarningMessage('This session is open in a terminal. Kill the terminal before deleting it.');
+        return;
+      }
+      const answer = await vscode.window.showWarningMessage(
+        `Delete session "${this.truncate(this.getTitle(session), 60)}"? This removes its history from disk.`,
+        { modal: true },
+        'Delete'
+      );
+      if (answer !== 'Delete') return;
+      try {
+        await this.sessionService.deleteSession(session);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to delete session: ${error}`);
+      }
+    }
+  }
+
+  private getTitle(session: SessionInfo): string {
+    return session.title || session.summary || session.firstPrompt || session.sessionId;
+  }
+
+  /** Collapse whitespace and shorten text for a single quick pick line */
+  private truncate(text: string, max: number): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+  }
+}
@@ -0,0 +1,297 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionInfo } from '../types';
+import { SESSION_INDEX_SAVE_DELAY_MS, SESSION_READ_CHUNK_BYTES } from '../constants';
+
+/**
+ * What is known about one session file, valid for its mtime and size
+ */
+interface CachedSession {
+  mtimeMs: number;
+  size: number;
+  /** Last user message read from the tail, undefined until read for this mtime and size */
+  lastMessage?: string | null;
+  /** Bytes up to the last complete line already counted by the forward scan */
+  scannedBytes: number;
+  messageCount: number;
+  firstPrompt: string;
+  created?: number;
+  gitBranch?: string;
+  summary?: string;
+}
+
+/** Version of the cache file layout, bump to discard old caches */
+const CACHE_VERSION = 1;
+
+/**
+ * Text of a user or assistant entry, skipping tool calls and tool results
+ */
+export function getMessageText(entry: any): string | null {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content.includes('tool_result') ? null : content;
+  }
+  if (Array.isArray(content)) {
+    const text = content
+      .filter((part: any) => part.type === 'text' && typeof part.text === 'string')
+      .map((part: any) => part.text)
+      .join('\n');
+    return text && !text.includes('tool_result') ? text : null;
+  }
+  return null;
+}
+
+/**
+ * Read the complete lines of a file from a byte offset, calling visit with
+ * each line and the offset just past it. A trailing partial line is left
+ * for the next read.
+ */
+export async function readLinesFrom(
+  filePath: string,
+  start: number,
+  visit: (line: string, end: number) => void
+): Promise<void> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SESSION_READ_CHUNK_BYTES);
+    let position = start;
+    let pending = Buffer.alloc(0);
+
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const chunk = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+      const chunkStart = position - chunk.length;
+      let lineStart = 0;
+      let newline: number;
+      while ((newline = chunk.indexOf(0x0a, lineStart)) !== -1) {
+        visit(chunk.toString('utf-8', lineStart, newline), chunkStart + newline + 1);
+        lineStart = newline + 1;
+      }
+      pending = chunk.subarray(lineStart);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+export function parseLine(line: string): any | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined; // Skip invalid or partially written lines
+  }
+}
+
+/**
+ * Cache of session file summaries keyed by file path. Files are only read
+ * again when their mtime or size changes, appended data is scanned from
+ * where the last scan stopped and the last message is read from the tail.
+ * The cache is kept in a JSON file so it survives reloads.
+ */
+export class SessionIndex {
+  private entries = new Map<string, CachedSession>();
+  private loaded = false;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private cacheFile?: string) {}
+
+  /**
+   * Session files of a project directory with their cache entries,
+   * dropping entries of files that no longer exist
+   */
+  async refresh(projectDir: string): Promise<Map<string, CachedSession>> {
+    this.load();
+
+    const files = new Map<string, CachedSession>();
+    let names: string[];
+    try {
+      names = (await fs.promises.readdir(projectDir)).filter((f) => f.endsWith('.jsonl'));
+    } catch {
+      return files;
+    }
+
+    for (const name of names) {
+      const filePath = path.join(projectDir, name);
+      try {
+        const stat = await fs.promises.stat(filePath);
+        files.set(filePath, this.update(filePath, stat.mtimeMs, stat.size));
+      } catch {
+        // File was removed between readdir and stat
+      }
+    }
+
+    for (const filePath of this.entries.keys()) {
+      if (path.dirname(filePath) === projectDir && !files.has(filePath)) {
+        this.entries.delete(filePath);
+        this.scheduleSave();
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Last user message of a session, read backwards from the end of the file
+   */
+  async getLastMessage(filePath: string, entry: CachedSession): Promise<string | null> {
+    if (entry.lastMessage === undefined) {
+      entry.lastMessage = await this.readLastUserMessage(filePath, entry.size);
+      this.scheduleSave();
+    }
+    return entry.lastMessage;
+  }
+
+  /**
+   * Full summary of a session, scanning only what was appended since the last scan
+   */
+  async getInfo(filePath: string, entry: CachedSession): Promise<SessionInfo> {
+    if (entry.scannedBytes < entry.size) {
+      await this.scanForward(filePath, entry);
+      this.scheduleSave();
+    }
+    return {
+      sessionId: path.basename(filePath, '.jsonl'),
+      filePath,
+      modified: entry.mtimeMs,
+      created: entry.created,
+      messageCount: entry.messageCount,
+      firstPrompt: entry.firstPrompt,
+      summary: entry.summary,
+      gitBranch: entry.gitBranch,
+    };
+  }
+
+  /** Write pending cache changes now */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+  }
+
+  private update(filePath: string, mtimeMs: number, size: number): CachedSession {
+    const cached = this.entries.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+      return cached;
+    }
+
+    // Appended files keep their forward scan, anything else starts over
+    const entry: CachedSession =
+      cached && size >= cached.scannedBytes
+        ? { ...cached, mtimeMs, size, lastMessage: undefined }
+        : { mtimeMs, size, scannedBytes: 0, messageCount: 0, firstPrompt: '' };
+    this.entries.set(filePath, entry);
+    this.scheduleSave();
+    return entry;
+  }
+
+  private async scanForward(filePath: string, entry: CachedSession): Promise<void> {
+    try {
+      await readLinesFrom(filePath, entry.scannedBytes, (line, end) => {
+        this.countEntry(entry, parseLine(line));
+        entry.scannedBytes = end;
+      });
+    } catch (error) {
+      console.error('[SessionIndex] Error scanning session:', error);
+    }
+  }
+
+  private countEntry(entry: CachedSession, parsed: any): void {
+    if (!parsed) return;
+    if (parsed.gitBranch) entry.gitBranch = parsed.gitBranch;
+    if (parsed.type === 'summary' && parsed.summary) entry.summary = parsed.summary;
+    if ((parsed.type !== 'user' && parsed.type !== 'assistant') || parsed.isMeta) return;
+
+    entry.messageCount++;
+    if (!entry.created && parsed.timestamp) {
+      entry.created = new Date(parsed.timestamp).getTime();
+    }
+    if (!entry.firstPrompt && parsed.type === 'user') {
+      entry.firstPrompt = getMessageText(parsed) ?? '';
+    }
+  }
+
+  private async readLastUserMessage(filePath: string, size: number): Promise<string | null> {
+    let handle: fs.promises.FileHandle | undefined;
+    try {
+      handle = await fs.promises.open(filePath, 'r');
+      let position = size;
+      let carry = Buffer.alloc(0);
+
+      while (position > 0) {
+        const length = Math.min(SESSION_READ_CHUNK_BYTES, position);
+        position -= length;
+        const buffer = Buffer.alloc(length);
+        await handle.read(buffer, 0, length, position);
+
+        // Unless this is the start of the file, the first line may begin in the
+        // chunk before, so it is carried over and completed by the next read
+        let chunk = Buffer.concat([buffer, carry]);
+        carry = Buffer.alloc(0);
+        if (position > 0) {
+          const firstNewline = chunk.indexOf(0x0a);
+          if (firstNewline === -1) {
+            carry = chunk;
+            continue;
+          }
+          carry = chunk.subarray(0, firstNewline);
+          chunk = chunk.subarray(firstNewline + 1);
+        }
+
+        const lines = chunk.toString('utf-8').split('\n').reverse();
+        for (const line of lines) {
+          const entry = parseLine(line);
+          if (entry?.type === 'user' && !entry.isMeta) {
+            const text = getMessageText(entry);
+            if (text) return text.slice(0, 60);
+          }
+        }
+      }
+    } catch {
+      // File read error
+    } finally {
+      await handle?.close();
+    }
+    return null;
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.cacheFile || !fs.existsSync(this.cacheFile)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.cacheFile, 'utf-8'));
+      if (data.version === CACHE_VERSION && data.entries) {
+        this.entries = new Map(Object.entries(data.entries));
+      }
+    } catch (error) {
+      console.warn('[SessionIndex] Ignoring unreadable cache:', error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.cacheFile || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SESSION_INDEX_SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    if (!this.cacheFile) return;
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(
+        this.cacheFile,
+        JSON.stringify({ version: CACHE_VERSION, entries: Object.fromEntries(this.entries) })
+      );
+    } catch (error) {
+      console.warn('[SessionIndex] Failed to save cache:', error);
+    }
+  }
+}
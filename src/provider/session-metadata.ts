@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionMetadata } from '../types';
+
+/**
+ * Titles and archive flags of Claude sessions, kept by the extension in a
+ * JSON file keyed by session id so Claude's own files stay untouched
+ */
+export class SessionMetadataStore {
+  private metadata?: Record<string, SessionMetadata>;
+
+  constructor(private file?: string) {}
+
+  get(sessionId: string): SessionMetadata {
+    return this.load()[sessionId] ?? {};
+  }
+
+  setTitle(sessionId: string, title: string | undefined): void {
+    this.update(sessionId, { title: title?.trim() || undefined });
+  }
+
+  setArchived(sessionId: string, archived: boolean): void {
+    this.update(sessionId, { archived: archived || undefined });
+  }
+
+  remove(sessionId: string): void {
+    const metadata = this.load();
+    if (sessionId in metadata) {
+      delete metadata[sessionId];
+      this.save();
+    }
+  }
+
+  private update(sessionId: string, changes: SessionMetadata): void {
+    const metadata = this.load();
+    const entry = { ...metadata[sessionId], ...changes };
+    // Drop cleared fields and entries so the file only holds real metadata
+    (Object.keys(entry) as (keyof SessionMetadata)[]).forEach((key) => {
+      if (entry[key] === undefined) delete entry[key];
+    });
+    if (Object.keys(entry).length > 0) {
+      metadata[sessionId] = entry;
+    } else {
+      delete metadata[sessionId];
+    }
+    this.save();
+  }
+
+  private load(): Record<string, SessionMetadata> {
+    if (this.metadata) return this.metadata;
+    this.metadata = {};
+    if (this.file && fs.existsSync(this.file)) {
+      try {
+        this.metadata = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      } catch (error) {
+        console.warn('[SessionMetadata] Ignoring unreadable metadata file:', error);
+      }
+    }
+    return this.metadata!;
+  }
+
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.metadata, null, 2));
+    } catch (error) {
+      console.warn('[SessionMetadata] Failed to save metadata:', error);
+    }
+  }
+}
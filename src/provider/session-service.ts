@@ -1,148 +1,435 @@
+import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { Session } from '../types';
+import * as readline from 'readline';
+import { Session, SessionInfo, SessionPreview, TokenUsage } from '../types';
+import {
+  SESSION_INDEX_FILE,
+  SESSION_METADATA_FILE,
+  SESSION_WATCH_DEBOUNCE_MS,
+} from '../constants';
+import { SessionIndex, getMessageText, parseLine, readLinesFrom } from './session-index';
+import { findProjectDir } from './claude-paths';
+import { SessionMetadataStore } from './session-metadata';
+
+/**
+ * Get relative time string from date
+ */
+export function getRelativeTime(date: Date): string {
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString();
+}
+
+/**
+ * Read a JSONL file line by line, calling visit with every parsed entry
+ */
+async function readEntries(filePath: string, visit: (entry: any) => boolean | void): Promise<void> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // Skip invalid JSON lines
+      }
+      // Returning false stops reading
+      if (visit(entry) === false) break;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Token usage read so far from a session file that is being tailed
+ */
+interface UsageTail {
+  /** Bytes up to the last complete line already read */
+  offset: number;
+  /** Usage keyed by model name */
+  byModel: Map<string, TokenUsage>;
+  /** Assistant message ids already counted */
+  messageIds: Set<string>;
+}
 
 /**
  * Service for fetching Claude Code sessions
  */
 export class SessionService {
-  private claudeDir: string;
+  private index: SessionIndex;
+  /** Watcher of the session directory the webview lists, one at a time */
+  private watched?: { watcher: fs.FSWatcher; timer?: NodeJS.Timeout };
+  /** Counts watchProject calls so an outdated one does not start watching */
+  private watchGeneration = 0;
+
+  private metadata: SessionMetadataStore;
+
+  private _onDidChangeSession = new vscode.EventEmitter<string>();
 
-  constructor() {
-    this.claudeDir = path.join(os.homedir(), '.claude', 'projects');
+  /** Fires with the session id when a session is renamed, archived or deleted */
+  readonly onDidChangeSession = this._onDidChangeSession.event;
+
+  /** Usage of tailed session files keyed by file path */
+  private usageTails = new Map<string, UsageTail>();
+
+  /**
+   * @param storageDir Where the session index cache and session metadata are kept
+   */
+  constructor(storageDir?: string) {
+    this.index = new SessionIndex(storageDir && path.join(storageDir, SESSION_INDEX_FILE));
+    this.metadata = new SessionMetadataStore(
+      storageDir && path.join(storageDir, SESSION_METADATA_FILE)
+    );
   }
 
   /**
-   * Encode project path for Claude directory lookup
-   * /Users/foo/bar -> -Users-foo-bar
+   * Get recent sessions for a project
    */
-  private encodeProjectPath(projectPath: string): string {
-    return projectPath.replace(/\//g, '-');
+  async getSessions(projectPath: string, limit: number = 5): Promise<Session[]> {
+    const projectDir = await findProjectDir(projectPath);
+    if (!projectDir) return [];
+
+    const files = await this.index.refresh(projectDir);
+    const recent = Array.from(files).sort(([, a], [, b]) => b.mtimeMs - a.mtimeMs);
+
+    const sessions: Session[] = [];
+    for (const [filePath, entry] of recent) {
+      if (sessions.length >= limit) break;
+      const sessionId = path.basename(filePath, '.jsonl');
+      const { title, archived } = this.metadata.get(sessionId);
+      if (archived) continue;
+
+      const lastMessage = await this.index.getLastMessage(filePath, entry);
+      if (lastMessage) {
+        sessions.push({
+          sessionId,
+          lastMessage,
+          lastModified: getRelativeTime(new Date(entry.mtimeMs)),
+          title,
+        });
+      }
+    }
+
+    return sessions;
   }
 
   /**
-   * Get relative time string from date
+   * List every session of a project, newest first, taking summaries
+   * Claude wrote to sessions-index.json over the scanned ones.
+   * Archived sessions are flagged, callers decide whether to show them.
    */
-  private getRelativeTime(date: Date): string {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
+  async listSessions(projectPath: string): Promise<SessionInfo[]> {
+    const projectDir = await findProjectDir(projectPath);
+    if (!projectDir) return [];
+
+    const files = await this.index.refresh(projectDir);
+    const indexed = this.readSessionsIndex(projectDir);
+
+    const sessions: SessionInfo[] = [];
+    for (const [filePath, entry] of files) {
+      const info = await this.index.getInfo(filePath, entry);
+      if (info.messageCount === 0) continue;
 
-    if (diffMins < 1) return 'just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays === 1) return 'Yesterday';
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString();
+      const claudeEntry = indexed.get(info.sessionId);
+      sessions.push({
+        ...info,
+        ...this.metadata.get(info.sessionId),
+        summary: claudeEntry?.summary || info.summary,
+        firstPrompt: info.firstPrompt || claudeEntry?.firstPrompt || '',
+      });
+    }
+
+    return sessions.sort((a, b) => b.modified - a.modified);
+  }
+
+  /** Give a session a title, an empty title clears it */
+  renameSession(sessionId: string, title: string): void {
+    this.metadata.setTitle(sessionId, title);
+    this._onDidChangeSession.fire(sessionId);
+  }
+
+  /** Hide a session from the default lists, or show it again */
+  archiveSession(sessionId: string, archived: boolean): void {
+    this.metadata.setArchived(sessionId, archived);
+    this._onDidChangeSession.fire(sessionId);
   }
 
   /**
-   * Extract last user message from a session JSONL file
+   * Delete a session's JSONL file, its tool output directory and its metadata
    */
-  private extractLastUserMessage(sessionPath: string): string | null {
+  async deleteSession(session: SessionInfo): Promise<void> {
+    await fs.promises.rm(session.filePath, { force: true });
+    await fs.promises.rm(path.join(path.dirname(session.filePath), session.sessionId), {
+      recursive: true,
+      force: true,
+    });
+    this.metadata.remove(session.sessionId);
+    this._onDidChangeSession.fire(session.sessionId);
+  }
+
+  /**
+   * Watch a project's session directory, calling onChange with the recent
+   * sessions whenever a session file is written. Only one project is
+   * watched, watching another one stops watching the previous one.
+   */
+  async watchProject(projectPath: string, onChange: (sessions: Session[]) => void): Promise<void> {
+    this.unwatchProject();
+    const generation = this.watchGeneration;
+
+    const projectDir = await findProjectDir(projectPath);
+    // Another project may have been watched while the directory was resolved
+    if (!projectDir || generation !== this.watchGeneration) return;
+
     try {
-      const content = fs.readFileSync(sessionPath, 'utf-8');
-      const lines = content.trim().split('\n').reverse();
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const entry = JSON.parse(line);
-          if (entry.type === 'user' && entry.message?.content) {
-            // Skip tool results
-            const content = entry.message.content;
-            if (typeof content === 'string' && !content.includes('tool_result')) {
-              return content.slice(0, 60);
-            }
-            if (Array.isArray(content)) {
-              const textPart = content.find((p: any) => p.type === 'text');
-              if (textPart?.text && !textPart.text.includes('tool_result')) {
-                return textPart.text.slice(0, 60);
-              }
-            }
+      const state: { watcher: fs.FSWatcher; timer?: NodeJS.Timeout } = {
+        watcher: fs.watch(projectDir, (_event, filename) => {
+          if (filename && !filename.toString().endsWith('.jsonl')) return;
+          // Claude appends many lines in a burst, refresh once it settles
+          if (state.timer) clearTimeout(state.timer);
+          state.timer = setTimeout(async () => {
+            state.timer = undefined;
+            onChange(await this.getSessions(projectPath));
+          }, SESSION_WATCH_DEBOUNCE_MS);
+        }),
+      };
+      state.watcher.on('error', () => {
+        if (this.watched === state) this.unwatchProject();
+      });
+      this.watched = state;
+    } catch (error) {
+      console.warn('[SessionService] Cannot watch sessions of', projectPath, error);
+    }
+  }
+
+  /** Stop watching the watched session directory */
+  unwatchProject(): void {
+    this.watchGeneration++;
+    const state = this.watched;
+    if (!state) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.watcher.close();
+    this.watched = undefined;
+  }
+
+  /** Stop watching and write the index cache */
+  dispose(): void {
+    this._onDidChangeSession.dispose();
+    this.unwatchProject();
+    this.index.flush();
+  }
+
+  /**
+   * Read a whole session for the browser preview
+   */
+  async getPreview(info: SessionInfo): Promise<SessionPreview> {
+    const preview: SessionPreview = {
+      ...info,
+      messageCount: 0,
+      usage: { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 },
+    };
+    // Assistant messages are logged once per content block with the same usage
+    const countedMessages = new Set<string>();
+
+    try {
+      await readEntries(info.filePath, (entry) => {
+        if (entry.gitBranch) preview.gitBranch = entry.gitBranch;
+        if (entry.type === 'summary' && entry.summary) preview.summary = entry.summary;
+        if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isMeta) return;
+
+        preview.messageCount++;
+        const text = getMessageText(entry);
+        if (entry.type === 'user' && text) {
+          preview.firstPrompt = preview.firstPrompt || text;
+          preview.lastPrompt = text;
+          preview.lastResponse = undefined;
+        } else if (entry.type === 'assistant') {
+          if (text) preview.lastResponse = text;
+          const usage = entry.message?.usage;
+          const messageId = entry.message?.id;
+          if (usage && !(messageId && countedMessages.has(messageId))) {
+            if (messageId) countedMessages.add(messageId);
+            this.addUsage(preview.usage, usage);
           }
-        } catch {
-          // Skip invalid JSON lines
         }
-      }
-    } catch {
-      // File read error
+      });
+    } catch (error) {
+      console.error('[SessionService] Error reading session preview:', error);
     }
-    return null;
+
+    return preview;
   }
 
   /**
-   * Get recent sessions for a project
+   * Session file of a session id in a project, if it exists
    */
-  async getSessions(projectPath: string, limit: number = 5): Promise<Session[]> {
-    const encodedPath = this.encodeProjectPath(projectPath);
-    const projectDir = path.join(this.claudeDir, encodedPath);
+  async findSessionFile(projectPath: string, sessionId: string): Promise<string | undefined> {
+    const projectDir = await findProjectDir(projectPath);
+    if (!projectDir) return undefined;
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    return fs.existsSync(filePath) ? filePath : undefined;
+  }
 
-    if (!fs.existsSync(projectDir)) {
-      return [];
+  /**
+   * Paths of every session file of a project
+   */
+  async listSessionFiles(projectPath: string): Promise<string[]> {
+    const projectDir = await findProjectDir(projectPath);
+    if (!projectDir) return [];
+    return Array.from((await this.index.refresh(projectDir)).keys());
+  }
+
+  /**
+   * Title shown for a session: its own title, Claude's summary or the first prompt
+   */
+  async getSessionTitle(projectPath: string, sessionId: string): Promise<string | undefined> {
+    const { title } = this.metadata.get(sessionId);
+    if (title) return title;
+
+    const projectDir = await findProjectDir(projectPath);
+    if (!projectDir) return undefined;
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    const entry = (await this.index.refresh(projectDir)).get(filePath);
+    if (!entry) return undefined;
+
+    const info = await this.index.getInfo(filePath, entry);
+    const text =
+      this.readSessionsIndex(projectDir).get(sessionId)?.summary || info.summary || info.firstPrompt;
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line ? line.slice(0, 100) : undefined;
+  }
+
+  /**
+   * Token usage of a session file per model, reading only what was
+   * appended since the last call
+   */
+  async readUsage(filePath: string): Promise<Map<string, TokenUsage>> {
+    let tail = this.usageTails.get(filePath);
+    const size = (await fs.promises.stat(filePath)).size;
+    if (!tail || size < tail.offset) {
+      // New or rewritten file, count from the start
+      tail = { offset: 0, byModel: new Map(), messageIds: new Set() };
+      this.usageTails.set(filePath, tail);
     }
+    if (size === tail.offset) return tail.byModel;
 
-    const sessions: Session[] = [];
+    const current = tail;
+    await readLinesFrom(filePath, current.offset, (line, end) => {
+      current.offset = end;
+      const entry = parseLine(line);
+      const usage = entry?.type === 'assistant' ? entry.message?.usage : undefined;
+      if (!usage) return;
 
-    try {
-      // Try sessions-index.json first
-      const indexPath = path.join(projectDir, 'sessions-index.json');
-      if (fs.existsSync(indexPath)) {
-        const indexContent = fs.readFileSync(indexPath, 'utf-8');
-        const index = JSON.parse(indexContent);
-
-        if (index.entries && Array.isArray(index.entries)) {
-          // Sort by modified date descending
-          const sorted = index.entries
-            .filter((e: any) => e.sessionId && e.modified)
-            .sort((a: any, b: any) =>
-              new Date(b.modified).getTime() - new Date(a.modified).getTime()
-            )
-            .slice(0, limit);
-
-          for (const entry of sorted) {
-            const sessionFile = path.join(projectDir, `${entry.sessionId}.jsonl`);
-            const lastMessage = this.extractLastUserMessage(sessionFile);
-
-            if (lastMessage) {
-              sessions.push({
-                sessionId: entry.sessionId,
-                lastMessage,
-                lastModified: this.getRelativeTime(new Date(entry.modified))
-              });
-            }
-          }
-        }
-      } else {
-        // Fallback: read JSONL files directly sorted by mtime
-        const files = fs.readdirSync(projectDir)
-          .filter(f => f.endsWith('.jsonl'))
-          .map(f => ({
-            name: f,
-            path: path.join(projectDir, f),
-            mtime: fs.statSync(path.join(projectDir, f)).mtime
-          }))
-          .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
-          .slice(0, limit);
-
-        for (const file of files) {
-          const lastMessage = this.extractLastUserMessage(file.path);
-          if (lastMessage) {
-            sessions.push({
-              sessionId: file.name.replace('.jsonl', ''),
-              lastMessage,
-              lastModified: this.getRelativeTime(file.mtime)
-            });
+      // Assistant messages are logged once per content block with the same usage
+      const messageId = entry.message.id;
+      if (messageId) {
+        if (current.messageIds.has(messageId)) return;
+        current.messageIds.add(messageId);
+      }
+
+      const model = entry.message.model ?? 'unknown';
+      let total = current.byModel.get(model);
+      if (!total) {
+        total = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 };
+        current.byModel.set(model, total);
+      }
+      this.addUsage(total, usage);
+    });
+    return current.byModel;
+  }
+
+  /** Stop keeping usage of a session file that is no longer tailed */
+  forgetUsage(filePath: string): void {
+    this.usageTails.delete(filePath);
+  }
+
+  /**
+   * Ids of the sessions whose prompts or responses contain query,
+   * ignoring case. Stops early once isCancelled returns true.
+   */
+  async searchSessions(
+    sessions: SessionInfo[],
+    query: string,
+    isCancelled: () => boolean = () => false
+  ): Promise<Set<string>> {
+    const needle = query.toLowerCase();
+    const found = new Set<string>();
+
+    for (const session of sessions) {
+      if (isCancelled()) break;
+
+      const meta = `${session.summary ?? ''}\n${session.firstPrompt}`.toLowerCase();
+      if (meta.includes(needle)) {
+        found.add(session.sessionId);
+        continue;
+      }
+
+      try {
+        await readEntries(session.filePath, (entry) => {
+          if (entry.type !== 'user' && entry.type !== 'assistant') return;
+          const text = getMessageText(entry);
+          if (text && text.toLowerCase().includes(needle)) {
+            found.add(session.sessionId);
+            return false;
           }
-        }
+          return !isCancelled();
+        });
+      } catch {
+        // Skip unreadable files
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Entries of sessions-index.json keyed by session id
+   */
+  private readSessionsIndex(projectDir: string): Map<string, SessionInfo> {
+    const entries = new Map<string, SessionInfo>();
+    const indexPath = path.join(projectDir, 'sessions-index.json');
+    if (!fs.existsSync(indexPath)) return entries;
+
+    try {
+      const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+      if (!Array.isArray(index.entries)) return entries;
+
+      for (const e of index.entries) {
+        if (!e.sessionId || !e.modified) continue;
+        entries.set(e.sessionId, {
+          sessionId: e.sessionId,
+          filePath: e.fullPath ?? path.join(projectDir, `${e.sessionId}.jsonl`),
+          modified: new Date(e.modified).getTime(),
+          created: e.created ? new Date(e.created).getTime() : undefined,
+          messageCount: e.messageCount ?? 0,
+          firstPrompt: e.firstPrompt ?? '',
+          summary: e.summary,
+          gitBranch: e.gitBranch,
+        });
       }
     } catch (error) {
-      console.error('[SessionService] Error reading sessions:', error);
+      console.error('[SessionService] Error reading sessions index:', error);
     }
+    return entries;
+  }
 
-    return sessions;
+  private addUsage(total: TokenUsage, usage: any): void {
+    total.inputTokens += usage.input_tokens ?? 0;
+    total.outputTokens += usage.output_tokens ?? 0;
+    total.cacheReadTokens += usage.cache_read_input_tokens ?? 0;
+    total.cacheCreationTokens += usage.cache_creation_input_tokens ?? 0;
   }
 }
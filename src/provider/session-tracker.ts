@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PtyProcess, TerminalStartEvent } from '../types';
+import { SESSION_DETECT_INTERVAL_MS } from '../constants';
+import { SessionService } from './session-service';
+import { TabManager } from './tab-manager';
+import { TerminalManager } from './terminal-manager';
+import { WebviewMessenger } from './webview-messenger';
+
+/** Claude names session files after a UUID, other files hold subagent transcripts */
+const SESSION_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.jsonl$/i;
+
+/**
+ * A terminal started without a session id, waiting for its session file
+ */
+interface Detection {
+  /** PTY process that is waiting, a restart starts a new detection */
+  ptyProcess: PtyProcess;
+  projectPath: string;
+  /** Session files that existed before the terminal started */
+  existing: Promise<Set<string>>;
+}
+
+/**
+ * Binds every Claude terminal to the session it runs and shows the
+ * session's title in the terminal header. Sessions started with an id are
+ * confirmed once their file is written, sessions started without one
+ * (forks, profiles without sessionIdArgs) are detected as the first new
+ * session file in the project's session directory.
+ */
+export class SessionTracker implements vscode.Disposable {
+  /** Terminals waiting for their session file, keyed by "tabId:terminalId" */
+  private detecting = new Map<string, Detection>();
+  /** Titles shown in terminal headers, keyed by "tabId:terminalId" */
+  private titles = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private tabManager: TabManager,
+    terminalManager: TerminalManager,
+    private sessionService: SessionService,
+    private messenger: WebviewMessenger
+  ) {
+    this.disposables.push(
+      terminalManager.onDidStartTerminal((event) => this.handleStart(event)),
+      terminalManager.onDidReattachTerminal((event) => this.handleStart(event)),
+      sessionService.onDidChangeSession((sessionId) => this.refreshSession(sessionId))
+    );
+    this.timer = setInterval(() => this.poll(), SESSION_DETECT_INTERVAL_MS);
+  }
+
+  /**
+   * Send the known titles again, e.g. after the webview was rebuilt
+   */
+  replay(): void {
+    for (const [key, title] of this.titles) {
+      const [tabId, terminalId] = key.split(':').map(Number);
+      this.messenger.sendSessionTitle(tabId, terminalId, title);
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private handleStart({ tabId, terminalId, projectPath }: TerminalStartEvent): void {
+    const key = this.key(tabId, terminalId);
+    this.detecting.delete(key);
+    this.titles.delete(key);
+
+    const tabState = this.tabManager.getTabState(tabId);
+    const ptyProcess = tabState?.ptyProcesses.get(terminalId);
+    if (!tabState || !ptyProcess || tabState.terminalModes.get(terminalId) !== 'claude') return;
+
+    if (!tabState.terminalSessions.has(terminalId)) {
+      this.detecting.set(key, {
+        ptyProcess,
+        projectPath,
+        existing: this.sessionService.listSessionFiles(projectPath).then((files) => new Set(files)),
+      });
+    } else if (!tabState.newSessions.has(terminalId)) {
+      this.refreshTitle(tabId, terminalId);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+        for (const terminalId of Array.from(tabState.newSessions)) {
+          await this.confirm(tabId, terminalId);
+        }
+      }
+      for (const [key, detection] of Array.from(this.detecting)) {
+        await this.detect(key, detection);
+      }
+
+      // Forget titles of terminals that are gone
+      for (const key of Array.from(this.titles.keys())) {
+        const [tabId, terminalId] = key.split(':').map(Number);
+        if (!this.tabManager.getTabState(tabId)?.ptyProcesses.has(terminalId)) {
+          this.titles.delete(key);
+        }
+      }
+    } catch (error) {
+      console.warn('[SessionTracker] Error looking for session files:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Mark a session started with an id as resumable once its file exists
+   */
+  private async confirm(tabId: number, terminalId: number): Promise<void> {
+    const tabState = this.tabManager.getTabState(tabId);
+    const sessionId = tabState?.terminalSessions.get(terminalId);
+    const projectPath = tabState?.terminalProjects.get(terminalId);
+    if (!tabState || !sessionId || !projectPath) return;
+
+    if (!(await this.sessionService.findSessionFile(projectPath, sessionId))) return;
+    // The terminal may have been restarted or killed while looking
+    if (tabState.terminalSessions.get(terminalId) !== sessionId) return;
+
+    tabState.newSessions.delete(terminalId);
+    // Saves the session so a reload resumes it
+    this.tabManager.notifyLayoutChanged();
+    await this.refreshTitle(tabId, terminalId);
+  }
+
+  /**
+   * Bind a terminal started without a session id to the first session
+   * file created since it started that no other terminal runs
+   */
+  private async detect(key: string, detection: Detection): Promise<void> {
+    const [tabId, terminalId] = key.split(':').map(Number);
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState || tabState.ptyProcesses.get(terminalId) !== detection.ptyProcess) {
+      this.detecting.delete(key);
+      return;
+    }
+
+    const existing = await detection.existing;
+    const claimed = new Set<string>();
+    for (const state of this.tabManager.getAllTabs().values()) {
+      state.terminalSessions.forEach((sessionId) => claimed.add(sessionId));
+    }
+    const created = (await this.sessionService.listSessionFiles(detection.projectPath))
+      .filter((filePath) => !existing.has(filePath))
+      .filter((filePath) => SESSION_FILE_PATTERN.test(path.basename(filePath)))
+      .map((filePath) => path.basename(filePath, '.jsonl'))
+      .filter((sessionId) => !claimed.has(sessionId));
+    if (created.length === 0 || this.detecting.get(key) !== detection) return;
+
+    this.detecting.delete(key);
+    tabState.terminalSessions.set(terminalId, created[0]);
+    console.log(`[SessionTracker] Tab ${tabId} terminal ${terminalId} runs session ${created[0]}`);
+    this.tabManager.notifyLayoutChanged();
+    await this.refreshTitle(tabId, terminalId);
+  }
+
+  /** Show the current title of every terminal running a session */
+  private refreshSession(sessionId: string): void {
+    for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+      for (const [terminalId, id] of tabState.terminalSessions) {
+        if (id === sessionId) this.refreshTitle(tabId, terminalId);
+      }
+    }
+  }
+
+  private async refreshTitle(tabId: number, terminalId: number): Promise<void> {
+    const tabState = this.tabManager.getTabState(tabId);
+    const sessionId = tabState?.terminalSessions.get(terminalId);
+    const projectPath = tabState?.terminalProjects.get(terminalId);
+    if (!tabState || !sessionId || !projectPath) return;
+
+    const title = await this.sessionService.getSessionTitle(projectPath, sessionId);
+    if (tabState.terminalSessions.get(terminalId) !== sessionId) return;
+
+    const key = this.key(tabId, terminalId);
+    if (title) {
+      this.titles.set(key, title);
+    } else {
+      this.titles.delete(key);
+    }
+    this.messenger.sendSessionTitle(tabId, terminalId, title);
+  }
+
+  private key(tabId: number, terminalId: number): string {
+    return `${tabId}:${terminalId}`;
+  }
+}
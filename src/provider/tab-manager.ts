@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { TabState } from '../types';
+import { GridLayout, SplitRatios, TabState } from '../types';
+import { getSlotCount } from '../constants';
 import { WebviewMessenger } from './webview-messenger';
 
 /**
@@ -9,6 +10,10 @@ export class TabManager {
   private tabs: Map<number, TabState> = new Map();
   private _activeTabId: number = 1;
   private _nextTabId: number = 2;
+  private _onDidChangeLayout = new vscode.EventEmitter<void>();
+
+  /** Fires when tabs or the terminals running in them change */
+  readonly onDidChangeLayout = this._onDidChangeLayout.event;
 
   constructor(private messenger: WebviewMessenger) {}
 
@@ -20,11 +25,20 @@ export class TabManager {
   /** Create a new empty tab state */
   createTabState(): TabState {
     return {
+      layout: 'auto',
       ptyProcesses: new Map(),
       terminalProjects: new Map(),
       idleTimers: new Map(),
-      terminalBusy: new Map(),
+      terminalStatus: new Map(),
+      stateTrackers: new Map(),
       claudeCommandTimeouts: new Map(),
+      promptDetectors: new Map(),
+      scrollback: new Map(),
+      terminalModes: new Map(),
+      terminalSessions: new Map(),
+      newSessions: new Set(),
+      terminalProfiles: new Map(),
+      terminalWorktrees: new Map(),
     };
   }
 
@@ -53,6 +67,54 @@ export class TabManager {
     return this.tabs;
   }
 
+  /**
+   * Change a tab's grid layout. Refuses layouts that would drop running terminals.
+   * @returns true if the layout was applied
+   */
+  setLayout(tabId: number, layout: GridLayout, splitRatios?: SplitRatios): boolean {
+    const tabState = this.tabs.get(tabId);
+    if (!tabState) return false;
+
+    const slotCount = getSlotCount(layout);
+    const outside = Array.from(tabState.terminalProjects.keys()).filter((id) => id >= slotCount);
+    if (outside.length > 0) {
+      vscode.window.showWarningMessage(
+        `Close terminal(s) ${outside.map((id) => id + 1).join(', ')} in Tab ${tabId} before switching to a ${slotCount}-slot layout.`
+      );
+      return false;
+    }
+
+    tabState.layout = layout;
+    tabState.splitRatios = splitRatios;
+    this.messenger.sendLayout(tabId, layout, splitRatios);
+    this.notifyLayoutChanged();
+    return true;
+  }
+
+  /** Store splitter positions dragged in the webview */
+  setSplitRatios(tabId: number, splitRatios: SplitRatios): void {
+    const tabState = this.tabs.get(tabId);
+    if (!tabState) return;
+
+    tabState.splitRatios = splitRatios;
+    this.notifyLayoutChanged();
+  }
+
+  /** Notify listeners that the tab or terminal layout changed */
+  notifyLayoutChanged(): void {
+    this._onDidChangeLayout.fire();
+  }
+
+  /** Check whether a running terminal in any tab resumed the given session */
+  isSessionInUse(sessionId: string): boolean {
+    for (const tabState of this.tabs.values()) {
+      for (const id of tabState.terminalSessions.values()) {
+        if (id === sessionId) return true;
+      }
+    }
+    return false;
+  }
+
   /** Get total tab count */
   get tabCount(): number {
     return this.tabs.size;
@@ -71,6 +133,7 @@ export class TabManager {
     this.tabs.set(newTabId, this.createTabState());
     this._activeTabId = newTabId;
     this.messenger.sendTabCreated(newTabId);
+    this.notifyLayoutChanged();
     return newTabId;
   }
 
@@ -79,6 +142,7 @@ export class TabManager {
     if (this.tabs.has(tabId)) {
       this._activeTabId = tabId;
       this.messenger.sendTabSwitched(tabId);
+      this.notifyLayoutChanged();
     }
   }
 
@@ -126,6 +190,12 @@ export class TabManager {
     }
 
     this.messenger.sendTabClosed(tabId, this._activeTabId);
+    this.notifyLayoutChanged();
+  }
+
+  /** Dispose the layout change emitter */
+  dispose(): void {
+    this._onDidChangeLayout.dispose();
   }
 
   /** Reset all tabs (used during refresh) */
@@ -1,17 +1,56 @@
-import * as os from 'os';
-import * as pty from 'node-pty';
-import { TabState } from '../types';
-import { SHELL_INIT_DELAY_MS, IDLE_TIMEOUT_MS } from '../constants';
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import {
+  PtyProcess,
+  SavedTerminal,
+  TabState,
+  TerminalLaunchOptions,
+  TerminalStartEvent,
+  TerminalStatus,
+  TerminalStatusChange,
+} from '../types';
+import {
+  PROMPT_SETTLE_DELAY_MS,
+  SCROLLBACK_BUFFER_SIZE,
+  SHELL_READY_TIMEOUT_MS,
+  IDLE_TIMEOUT_MS,
+} from '../constants';
 import { WebviewMessenger } from './webview-messenger';
 import { TabManager } from './tab-manager';
+import { ProfileService } from './profile-service';
+import { EnvironmentService, joinCommands } from './environment-service';
+import { OutputPipeline } from './output-pipeline';
+import { PtyHostClient } from './pty-host-client';
+import { PromptDetector } from './prompt-detector';
+import { AgentStateTracker } from './agent-state';
+import { ScrollbackBuffer } from './scrollback-buffer';
 
 /**
- * Manages PTY lifecycle, I/O, and busy/idle status
+ * Manages PTY lifecycle, I/O, and terminal status
  */
 export class TerminalManager {
+  private _onDidChangeStatus = new vscode.EventEmitter<TerminalStatusChange>();
+
+  /** Fires when a terminal's status changes */
+  readonly onDidChangeStatus = this._onDidChangeStatus.event;
+
+  private _onDidStartTerminal = new vscode.EventEmitter<TerminalStartEvent>();
+
+  /** Fires when a terminal's process was spawned */
+  readonly onDidStartTerminal = this._onDidStartTerminal.event;
+
+  private _onDidReattachTerminal = new vscode.EventEmitter<TerminalStartEvent>();
+
+  /** Fires when a process still running in the pty host was reattached */
+  readonly onDidReattachTerminal = this._onDidReattachTerminal.event;
+
   constructor(
     private tabManager: TabManager,
-    private messenger: WebviewMessenger
+    private messenger: WebviewMessenger,
+    private profileService: ProfileService,
+    private environmentService: EnvironmentService,
+    private outputPipeline: OutputPipeline,
+    private ptyHost: PtyHostClient
   ) {}
 
   private timestamp(): string {
@@ -25,9 +64,9 @@ export class TerminalManager {
     tabId: number,
     terminalId: number,
     projectPath: string,
-    sessionId?: string,
-    skipClaude?: boolean
+    options: TerminalLaunchOptions = {}
   ): void {
+    const { sessionId, skipClaude, forkSession } = options;
     console.log(`[${this.timestamp()}] [QuadTerminal] startTerminal called: tab=${tabId}, terminal=${terminalId}, path=${projectPath}`);
 
     // Log all existing PTY processes across all tabs
@@ -46,67 +85,137 @@ export class TerminalManager {
     // Clear the terminal in webview
     this.messenger.sendClear(tabId, terminalId);
 
-    const shell =
-      os.platform() === 'win32'
-        ? 'powershell.exe'
-        : process.env.SHELL || '/bin/zsh';
+    const profile = skipClaude
+      ? undefined
+      : this.profileService.getProfile(options.profileName, projectPath);
+    // New sessions get their id up front so restart can resume them
+    const newSessionId =
+      profile && !sessionId && this.profileService.canAssignSessionId(profile)
+        ? options.newSessionId ?? randomUUID()
+        : undefined;
 
     try {
-      // Create clean environment without Claude Code specific variables
-      // that might cause conflicts when running multiple Claude instances
-      const cleanEnv = { ...process.env };
-      delete cleanEnv.CLAUDECODE;
-      delete cleanEnv.CLAUDE_CODE_ENTRYPOINT;
-      delete cleanEnv.CLAUDE_CODE_SESSION;
-      delete cleanEnv.VSCODE_GIT_IPC_HANDLE;
-
-      const ptyProcess = pty.spawn(shell, [], {
-        name: 'xterm-256color',
-        cols: 80,
-        rows: 24,
-        cwd: projectPath,
-        env: {
-          ...cleanEnv,
-          TERM: 'xterm-256color',
-          COLORTERM: 'truecolor',
-        } as { [key: string]: string },
-      });
+      // Shell, environment and startup commands configured for the project
+      const launch = this.environmentService.getLaunch(
+        projectPath,
+        options.worktree?.projectPath
+      );
+      const env = profile ? this.profileService.applyEnv(launch.env, profile) : launch.env;
+      const scrollbackSize = vscode.workspace
+        .getConfiguration('quadTerminal')
+        .get<number>('scrollbackBufferSize', SCROLLBACK_BUFFER_SIZE);
+
+      const ptyProcess: PtyProcess = this.ptyHost.spawn(
+        {
+          shell: launch.shell,
+          args: launch.args,
+          cwd: projectPath,
+          env: {
+            ...env,
+            TERM: 'xterm-256color',
+            COLORTERM: 'truecolor',
+          } as { [key: string]: string },
+          cols: 80,
+          rows: 24,
+          scrollbackSize,
+        },
+        (message) => {
+          if (tabState.ptyProcesses.get(terminalId) !== ptyProcess) return;
+          console.error(
+            `[QuadTerminal] Failed to create PTY process tab ${tabId} terminal ${terminalId}:`,
+            message
+          );
+          this.cleanupTerminal(tabId, terminalId);
+          this.messenger.sendError(tabId, terminalId, `Failed to start terminal: ${message}`);
+        }
+      );
 
       console.log(`[${this.timestamp()}] [QuadTerminal] Created new PTY: tab=${tabId}, terminal=${terminalId}, pid=${ptyProcess.pid}`);
       tabState.ptyProcesses.set(terminalId, ptyProcess);
       tabState.terminalProjects.set(terminalId, projectPath);
+      tabState.terminalModes.set(terminalId, skipClaude ? 'shell' : 'claude');
+      // A fork gets a new session id, so restarting must not resume the original
+      if (sessionId && !forkSession) {
+        tabState.terminalSessions.set(terminalId, sessionId);
+      } else if (newSessionId) {
+        tabState.terminalSessions.set(terminalId, newSessionId);
+        tabState.newSessions.add(terminalId);
+      }
+      if (profile) {
+        tabState.terminalProfiles.set(terminalId, profile.name);
+      }
+      if (options.worktree) {
+        tabState.terminalWorktrees.set(terminalId, options.worktree);
+        this.messenger.sendWorktree(tabId, terminalId, options.worktree.branch);
+      }
+      this.tabManager.notifyLayoutChanged();
+
+      // Agent terminals derive their status from the output stream,
+      // shell terminals fall back to busy/idle on output activity
+      let tracker: AgentStateTracker | undefined;
+      if (profile) {
+        tracker = new AgentStateTracker((status) => {
+          this.updateStatus(tabId, terminalId, status);
+        });
+        tabState.stateTrackers.set(terminalId, tracker);
+        this.updateStatus(tabId, terminalId, tracker.status);
+      }
 
-      // Send PTY output to webview
-      ptyProcess.onData((data: string) => {
-        this.messenger.sendOutput(tabId, terminalId, data);
-        this.markBusy(tabId, terminalId);
-      });
-
-      // Handle PTY exit
-      ptyProcess.onExit(({ exitCode, signal }) => {
-        console.log(
-          `[${this.timestamp()}] [QuadTerminal] PTY EXIT: tab=${tabId}, terminal=${terminalId}, pid=${ptyProcess.pid}, exitCode=${exitCode}, signal=${signal}`
+      // Keep recent output so a rebuilt webview can be replayed
+      const scrollback = new ScrollbackBuffer(scrollbackSize);
+      tabState.scrollback.set(terminalId, scrollback);
+      this.connectProcess(tabId, terminalId, ptyProcess, scrollback, tracker);
+
+      // Wait for the shell prompt before running the startup commands and
+      // the profile's agent (unless skipClaude is true), and give up if it never appears
+      const startupCommands = [...launch.preLaunchCommands];
+      if (profile) {
+        startupCommands.push(
+          this.profileService.buildCommandLine(profile, { sessionId, forkSession, newSessionId })
         );
-        this.cleanupTerminal(tabId, terminalId);
-        this.messenger.sendKilled(tabId, terminalId);
-      });
+      }
+      if (startupCommands.length > 0) {
+        const config = vscode.workspace.getConfiguration('quadTerminal');
+        const readyTimeoutMs = config.get<number>('shellReadyTimeout', SHELL_READY_TIMEOUT_MS);
+        const commandLine = joinCommands(startupCommands, launch.shell);
+
+        // Type the commands once the shell shows its prompt
+        const detector = new PromptDetector(config.get<string>('promptPattern'), () => {
+          tabState.promptDetectors.delete(terminalId);
+          this.clearCommandTimeout(tabState, terminalId);
+          const settleTimeout = setTimeout(() => {
+            if (tabState.ptyProcesses.get(terminalId) === ptyProcess) {
+              tracker?.markLaunched();
+              ptyProcess.write(`${commandLine}\r`);
+            }
+            tabState.claudeCommandTimeouts.delete(terminalId);
+          }, PROMPT_SETTLE_DELAY_MS);
+          tabState.claudeCommandTimeouts.set(terminalId, settleTimeout);
+        });
+        tabState.promptDetectors.set(terminalId, detector);
 
-      // Auto-run claude after shell init (unless skipClaude is true)
-      if (!skipClaude) {
         const timeout = setTimeout(() => {
-          if (tabState.ptyProcesses.has(terminalId)) {
-            let claudeCmd: string;
-            if (sessionId) {
-              claudeCmd = `claude --dangerously-skip-permissions --resume ${sessionId}\r`;
-            } else {
-              claudeCmd = 'claude --dangerously-skip-permissions\r';
-            }
-            ptyProcess.write(claudeCmd);
-          }
+          detector.dispose();
+          tabState.promptDetectors.delete(terminalId);
           tabState.claudeCommandTimeouts.delete(terminalId);
-        }, SHELL_INIT_DELAY_MS);
+          if (tabState.ptyProcesses.get(terminalId) !== ptyProcess) return;
+
+          tracker?.markError();
+          console.warn(
+            `[${this.timestamp()}] [QuadTerminal] No shell prompt after ${readyTimeoutMs}ms: tab=${tabId}, terminal=${terminalId}`
+          );
+          const notStarted = profile ? `${profile.name} was not started` : 'the startup commands were not run';
+          this.messenger.sendError(
+            tabId,
+            terminalId,
+            `Shell did not show a prompt within ${readyTimeoutMs / 1000}s, ${notStarted}. ` +
+              'Set quadTerminal.promptPattern to match your prompt.'
+          );
+        }, readyTimeoutMs);
         tabState.claudeCommandTimeouts.set(terminalId, timeout);
       }
+
+      this._onDidStartTerminal.fire({ tabId, terminalId, projectPath });
     } catch (error) {
       console.error(
         `[QuadTerminal] Failed to create PTY process tab ${tabId} terminal ${terminalId}:`,
@@ -120,6 +229,109 @@ export class TerminalManager {
     }
   }
 
+  /**
+   * Take over a process the pty host kept running while the extension
+   * host restarted, in the slot it was saved in
+   * @param output Output the pty host kept, shown again in the terminal
+   */
+  attachTerminal(
+    tabId: number,
+    terminalId: number,
+    saved: SavedTerminal,
+    ptyProcess: PtyProcess,
+    output: string
+  ): void {
+    const tabState = this.tabManager.getTabState(tabId);
+    if (!tabState) {
+      ptyProcess.kill();
+      return;
+    }
+    this.cleanupTerminal(tabId, terminalId);
+    console.log(`[${this.timestamp()}] [QuadTerminal] Reattached PTY: tab=${tabId}, terminal=${terminalId}, pid=${ptyProcess.pid}`);
+
+    tabState.ptyProcesses.set(terminalId, ptyProcess);
+    tabState.terminalProjects.set(terminalId, saved.projectPath);
+    tabState.terminalModes.set(terminalId, saved.mode);
+    if (saved.sessionId) {
+      tabState.terminalSessions.set(terminalId, saved.sessionId);
+    } else if (saved.newSessionId) {
+      tabState.terminalSessions.set(terminalId, saved.newSessionId);
+      tabState.newSessions.add(terminalId);
+    }
+    if (saved.profileName) {
+      tabState.terminalProfiles.set(terminalId, saved.profileName);
+    }
+    if (saved.worktree) {
+      tabState.terminalWorktrees.set(terminalId, saved.worktree);
+      this.messenger.sendWorktree(tabId, terminalId, saved.worktree.branch);
+    }
+    this.tabManager.notifyLayoutChanged();
+
+    // The agent is already running, its state shows with the next output
+    let tracker: AgentStateTracker | undefined;
+    if (saved.mode === 'claude') {
+      tracker = new AgentStateTracker((status) => {
+        this.updateStatus(tabId, terminalId, status);
+      });
+      tracker.markLaunched();
+      tabState.stateTrackers.set(terminalId, tracker);
+      this.updateStatus(tabId, terminalId, tracker.status);
+    }
+
+    const scrollback = new ScrollbackBuffer(
+      vscode.workspace
+        .getConfiguration('quadTerminal')
+        .get<number>('scrollbackBufferSize', SCROLLBACK_BUFFER_SIZE)
+    );
+    scrollback.append(output);
+    tabState.scrollback.set(terminalId, scrollback);
+    if (output) {
+      this.messenger.sendOutput(tabId, terminalId, output);
+    }
+    this.connectProcess(tabId, terminalId, ptyProcess, scrollback, tracker);
+
+    this._onDidReattachTerminal.fire({ tabId, terminalId, projectPath: saved.projectPath });
+  }
+
+  /**
+   * Carry a process's output to the webview, scrollback and state tracking,
+   * and tear the slot down when it exits
+   */
+  private connectProcess(
+    tabId: number,
+    terminalId: number,
+    ptyProcess: PtyProcess,
+    scrollback: ScrollbackBuffer,
+    tracker: AgentStateTracker | undefined
+  ): void {
+    // Send PTY output to webview in batches, shell terminals are busy while output flows
+    this.outputPipeline.open(tabId, terminalId, ptyProcess, () => {
+      if (!tracker) this.markBusy(tabId, terminalId);
+    });
+    ptyProcess.onData((data: string) => {
+      scrollback.append(data);
+      this.outputPipeline.push(tabId, terminalId, data);
+      tracker?.feed(data);
+      this.tabManager.getTabState(tabId)?.promptDetectors.get(terminalId)?.feed(data);
+    });
+
+    // Handle PTY exit
+    ptyProcess.onExit(({ exitCode, signal }) => {
+      console.log(
+        `[${this.timestamp()}] [QuadTerminal] PTY EXIT: tab=${tabId}, terminal=${terminalId}, pid=${ptyProcess.pid}, exitCode=${exitCode}, signal=${signal}`
+      );
+      // Ignore exits of processes that were already replaced or disposed,
+      // otherwise a late exit would tear down whatever now owns the slot
+      if (this.tabManager.getTabState(tabId)?.ptyProcesses.get(terminalId) !== ptyProcess) {
+        return;
+      }
+      tracker?.markExited();
+      this.outputPipeline.flush(tabId, terminalId);
+      this.cleanupTerminal(tabId, terminalId);
+      this.messenger.sendKilled(tabId, terminalId);
+    });
+  }
+
   /**
    * Clean up terminal resources
    */
@@ -137,20 +349,31 @@ export class TerminalManager {
       console.log(`[${this.timestamp()}] [QuadTerminal] cleanupTerminal: KILLING PTY pid=${existingPty.pid} in tab=${tabId}, terminal=${terminalId}`);
       existingPty.kill();
       tabState.ptyProcesses.delete(terminalId);
+      this.outputPipeline.close(tabId, terminalId);
     } else {
       console.log(`[${this.timestamp()}] [QuadTerminal] cleanupTerminal: no existing PTY for tab=${tabId}, terminal=${terminalId}`);
     }
 
     this.clearIdleTimer(tabId, terminalId);
 
-    const cmdTimeout = tabState.claudeCommandTimeouts.get(terminalId);
-    if (cmdTimeout) {
-      clearTimeout(cmdTimeout);
-      tabState.claudeCommandTimeouts.delete(terminalId);
+    this.clearCommandTimeout(tabState, terminalId);
+    tabState.promptDetectors.get(terminalId)?.dispose();
+    tabState.promptDetectors.delete(terminalId);
+
+    tabState.stateTrackers.get(terminalId)?.dispose();
+    tabState.stateTrackers.delete(terminalId);
+    tabState.scrollback.delete(terminalId);
+    tabState.terminalStatus.delete(terminalId);
+    const hadProject = tabState.terminalProjects.delete(terminalId);
+    tabState.terminalModes.delete(terminalId);
+    tabState.terminalSessions.delete(terminalId);
+    tabState.newSessions.delete(terminalId);
+    tabState.terminalProfiles.delete(terminalId);
+    tabState.terminalWorktrees.delete(terminalId);
+
+    if (hadProject) {
+      this.tabManager.notifyLayoutChanged();
     }
-
-    tabState.terminalBusy.delete(terminalId);
-    tabState.terminalProjects.delete(terminalId);
   }
 
   /**
@@ -206,6 +429,16 @@ export class TerminalManager {
     // Get the current project path before killing
     const projectPath = tabState.terminalProjects.get(terminalId);
     if (!projectPath) return; // No project to restart
+    // A session that never wrote its file cannot be resumed, start it again with the same id
+    const sessionId = tabState.terminalSessions.get(terminalId);
+    const isNewSession = tabState.newSessions.has(terminalId);
+    const options: TerminalLaunchOptions = {
+      skipClaude: tabState.terminalModes.get(terminalId) === 'shell',
+      sessionId: isNewSession ? undefined : sessionId,
+      newSessionId: isNewSession ? sessionId : undefined,
+      profileName: tabState.terminalProfiles.get(terminalId),
+      worktree: tabState.terminalWorktrees.get(terminalId),
+    };
 
     // Send restarting message (clears terminal but keeps slot)
     this.messenger.sendRestarting(tabId, terminalId);
@@ -215,7 +448,7 @@ export class TerminalManager {
 
     // Restart with the same project after a short delay
     setTimeout(() => {
-      this.startTerminal(tabId, terminalId, projectPath);
+      this.startTerminal(tabId, terminalId, projectPath, options);
     }, 100);
   }
 
@@ -233,11 +466,13 @@ export class TerminalManager {
 
   /**
    * Dispose all resources across all tabs
+   * @param keepHostProcesses Leave processes in the pty host running for
+   *   the next extension host to take over
    */
-  disposeAll(): void {
+  disposeAll(keepHostProcesses = false): void {
     for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
       for (const ptyProcess of tabState.ptyProcesses.values()) {
-        ptyProcess.kill();
+        if (!keepHostProcesses || !ptyProcess.hostId) ptyProcess.kill();
       }
       for (const timer of tabState.idleTimers.values()) {
         clearTimeout(timer);
@@ -245,7 +480,23 @@ export class TerminalManager {
       for (const timeout of tabState.claudeCommandTimeouts.values()) {
         clearTimeout(timeout);
       }
+      for (const detector of tabState.promptDetectors.values()) {
+        detector.dispose();
+      }
+      for (const tracker of tabState.stateTrackers.values()) {
+        tracker.dispose();
+      }
     }
+    this.outputPipeline.closeAll();
+  }
+
+  /**
+   * Dispose the event emitters
+   */
+  dispose(): void {
+    this._onDidChangeStatus.dispose();
+    this._onDidStartTerminal.dispose();
+    this._onDidReattachTerminal.dispose();
   }
 
   /**
@@ -257,23 +508,57 @@ export class TerminalManager {
 
     this.clearIdleTimer(tabId, terminalId);
 
-    if (!tabState.terminalBusy.get(terminalId)) {
-      tabState.terminalBusy.set(terminalId, true);
-      this.messenger.sendStatus(tabId, terminalId, 'busy');
-    }
+    this.updateStatus(tabId, terminalId, 'busy');
 
     const timer = setTimeout(() => {
       // Re-fetch tabState inside closure to handle tab deletion during timeout
       const currentTabState = this.tabManager.getTabState(tabId);
       if (!currentTabState) return;
 
-      currentTabState.terminalBusy.set(terminalId, false);
-      this.messenger.sendStatus(tabId, terminalId, 'idle');
+      this.updateStatus(tabId, terminalId, 'idle');
       currentTabState.idleTimers.delete(terminalId);
     }, IDLE_TIMEOUT_MS);
     tabState.idleTimers.set(terminalId, timer);
   }
 
+  /**
+   * Get the buffered output of a terminal, oldest first
+   */
+  getScrollback(tabId: number, terminalId: number): string {
+    return this.tabManager.getTabState(tabId)?.scrollback.get(terminalId)?.toString() ?? '';
+  }
+
+  /**
+   * Get the current status of a terminal
+   */
+  getStatus(tabId: number, terminalId: number): TerminalStatus | undefined {
+    return this.tabManager.getTabState(tabId)?.terminalStatus.get(terminalId);
+  }
+
+  /**
+   * Record a terminal's status and tell the webview if it changed
+   */
+  private updateStatus(tabId: number, terminalId: number, status: TerminalStatus): void {
+    const tabState = this.tabManager.getTabState(tabId);
+    const previous = tabState?.terminalStatus.get(terminalId);
+    if (!tabState || previous === status) return;
+
+    tabState.terminalStatus.set(terminalId, status);
+    this.messenger.sendStatus(tabId, terminalId, status);
+    this._onDidChangeStatus.fire({ tabId, terminalId, status, previous });
+  }
+
+  /**
+   * Clear the pending agent command timeout for a terminal
+   */
+  private clearCommandTimeout(tabState: TabState, terminalId: number): void {
+    const cmdTimeout = tabState.claudeCommandTimeouts.get(terminalId);
+    if (cmdTimeout) {
+      clearTimeout(cmdTimeout);
+      tabState.claudeCommandTimeouts.delete(terminalId);
+    }
+  }
+
   /**
    * Clear idle timer for a terminal
    */
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TabManager } from './tab-manager';
+
+/**
+ * A terminal slot chosen by the user
+ */
+export interface PickedTerminal {
+  tabId: number;
+  terminalId: number;
+}
+
+/**
+ * Let the user pick one of the running terminals across all tabs,
+ * optionally limited to the ones accepted by filter
+ * @param preferred Listed first so Enter picks it, e.g. the last focused terminal
+ */
+export async function pickTerminal(
+  tabManager: TabManager,
+  placeHolder: string,
+  filter: (tabId: number, terminalId: number) => boolean = () => true,
+  preferred?: PickedTerminal
+): Promise<PickedTerminal | undefined> {
+  const items: (vscode.QuickPickItem & PickedTerminal)[] = [];
+  for (const [tabId, tabState] of tabManager.getAllTabs()) {
+    for (const [terminalId, projectPath] of tabState.terminalProjects) {
+      if (!filter(tabId, terminalId)) continue;
+      items.push({
+        label: `Tab ${tabId} · Terminal ${terminalId + 1}`,
+        description: path.basename(projectPath),
+        detail: tabState.terminalStatus.get(terminalId),
+        tabId,
+        terminalId,
+      });
+    }
+  }
+
+  const preferredIndex = items.findIndex(
+    (item) => item.tabId === preferred?.tabId && item.terminalId === preferred?.terminalId
+  );
+  if (preferredIndex > 0) {
+    items.unshift(...items.splice(preferredIndex, 1));
+  }
+  if (preferredIndex >= 0) {
+    items[0].description = `${items[0].description} · last focused`;
+  }
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('No running terminals.');
+    return undefined;
+  }
+  if (items.length === 1) {
+    return items[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder });
+  return selected ? { tabId: selected.tabId, terminalId: selected.terminalId } : undefined;
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TerminalColors } from '../types';
+import { TRANSCRIPT_BUFFER_TIMEOUT_MS } from '../constants';
+import { ansiToHtml, ansiToText, DEFAULT_ANSI_PALETTE } from './ansi';
+import { ConfigService } from './config-service';
+import { TabManager } from './tab-manager';
+import { pickTerminal } from './terminal-picker';
+import { WebviewMessenger } from './webview-messenger';
+
+type TranscriptFormat = 'text' | 'markdown' | 'html';
+
+/** File extension, editor language and save dialog filter per format */
+const FORMATS: Record<TranscriptFormat, { label: string; extension: string; language: string }> = {
+  text: { label: 'Plain Text', extension: 'txt', language: 'plaintext' },
+  markdown: { label: 'Markdown', extension: 'md', language: 'markdown' },
+  html: { label: 'HTML (keeps colours)', extension: 'html', language: 'html' },
+};
+
+/** Terminal colour keys in ANSI 0-15 order */
+const PALETTE_KEYS: (keyof TerminalColors)[] = [
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow',
+  'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite',
+];
+
+/**
+ * Exports a terminal's output as plain text, Markdown or HTML, to a file or
+ * an untitled editor. The output is the terminal's rendered buffer as the
+ * webview serializes it, so spinners and redrawn screens appear only as
+ * they ended up, not once per frame.
+ */
+export class TranscriptService {
+  private nextRequestId = 1;
+  private pending = new Map<number, (data: string | undefined) => void>();
+
+  constructor(
+    private tabManager: TabManager,
+    private configService: ConfigService,
+    private messenger: WebviewMessenger,
+    private getView: () => vscode.WebviewView | undefined
+  ) {}
+
+  /**
+   * Export a terminal's transcript, asking which one when not given
+   */
+  async exportTranscript(tabId?: number, terminalId?: number): Promise<void> {
+    if (!this.getView()) {
+      vscode.window.showInformationMessage('Open Quad Terminal to export a transcript of its terminals.');
+      return;
+    }
+    if (tabId === undefined || terminalId === undefined) {
+      const picked = await pickTerminal(
+        this.tabManager,
+        'Select a terminal to export',
+        (t, id) => this.tabManager.getTabState(t)?.ptyProcesses.has(id) ?? false
+      );
+      if (!picked) return;
+      ({ tabId, terminalId } = picked);
+    }
+
+    const output = await this.requestBuffer(tabId, terminalId);
+    if (!output) {
+      vscode.window.showInformationMessage('This terminal has no output to export.');
+      return;
+    }
+
+    const formatPick = await vscode.window.showQuickPick(
+      (Object.keys(FORMATS) as TranscriptFormat[]).map((format) => ({
+        label: FORMATS[format].label,
+        format,
+      })),
+      { placeHolder: 'Transcript format' }
+    );
+    if (!formatPick) return;
+    const format = formatPick.format;
+
+    // HTML always renders the escape sequences as colours
+    let keepAnsi = false;
+    if (format !== 'html') {
+      const ansiPick = await vscode.window.showQuickPick(
+        [
+          { label: 'Strip ANSI sequences', keep: false },
+          { label: 'Keep ANSI sequences', description: 'colours of the terminal output', keep: true },
+        ],
+        { placeHolder: 'Colour and cursor escape sequences' }
+      );
+      if (!ansiPick) return;
+      keepAnsi = ansiPick.keep;
+    }
+
+    const destination = await vscode.window.showQuickPick(
+      [
+        { label: 'Save to File...', toFile: true },
+        { label: 'Open in Untitled Editor', toFile: false },
+      ],
+      { placeHolder: 'Where should the transcript go?' }
+    );
+    if (!destination) return;
+
+    const projectPath = this.tabManager.getTabState(tabId)?.terminalProjects.get(terminalId);
+    const title = `${projectPath ? path.basename(projectPath) : 'Terminal'} (Tab ${tabId}, Terminal ${terminalId + 1})`;
+    const content = this.render(output, format, keepAnsi, title);
+
+    if (destination.toFile) {
+      await this.saveToFile(content, format, projectPath);
+    } else {
+      const document = await vscode.workspace.openTextDocument({
+        content,
+        language: FORMATS[format].language,
+      });
+      await vscode.window.showTextDocument(document);
+    }
+  }
+
+  /**
+   * Resolve the pending request a terminalSerialized message answers
+   */
+  handleSerialized(requestId: number, data: string | null): void {
+    const resolve = this.pending.get(requestId);
+    if (resolve) {
+      this.pending.delete(requestId);
+      resolve(data ?? undefined);
+    }
+  }
+
+  /** Ask the webview for a terminal's rendered buffer as ANSI text */
+  private requestBuffer(tabId: number, terminalId: number): Promise<string | undefined> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      // Give up with nothing to export if the webview never answers
+      const timeout = setTimeout(
+        () => this.handleSerialized(requestId, null),
+        TRANSCRIPT_BUFFER_TIMEOUT_MS
+      );
+      this.pending.set(requestId, (data) => {
+        clearTimeout(timeout);
+        resolve(data);
+      });
+      this.messenger.sendSerializeTerminal(requestId, tabId, terminalId);
+    });
+  }
+
+  private render(output: string, format: TranscriptFormat, keepAnsi: boolean, title: string): string {
+    const exported = new Date().toLocaleString();
+
+    if (format === 'html') {
+      return this.renderHtml(output, title, exported);
+    }
+
+    const body = keepAnsi ? output.replace(/\r\n/g, '\n') : ansiToText(output);
+    if (format === 'markdown') {
+      // Use a fence longer than any backtick run in the output
+      const longestRun = Math.max(2, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      return `# ${title}\n\nExported ${exported}\n\n${fence}${keepAnsi ? 'ansi' : 'text'}\n${body}\n${fence}\n`;
+    }
+    return `${body}\n`;
+  }
+
+  private renderHtml(output: string, title: string, exported: string): string {
+    const config = this.configService.getTerminalConfig();
+    const palette = PALETTE_KEYS.map(
+      (key, index) => config.colors[key] || DEFAULT_ANSI_PALETTE[index]
+    );
+    const background = config.colors.background || (config.isDark ? '#1e1e1e' : '#ffffff');
+    const foreground = config.colors.foreground || (config.isDark ? '#cccccc' : '#333333');
+    const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapedTitle}</title>
+<style>
+  :root { --bg: ${background}; --fg: ${foreground}; }
+  body { margin: 0; padding: 16px; background: var(--bg); color: var(--fg); }
+  h1 { font: 600 14px sans-serif; margin: 0 0 4px; }
+  p { font: 12px sans-serif; margin: 0 0 12px; opacity: 0.7; }
+  pre { font-family: ${config.fontFamily}; font-size: ${config.fontSize}px; line-height: ${config.lineHeight}; margin: 0; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>${escapedTitle}</h1>
+<p>Exported ${exported}</p>
+<pre>${ansiToHtml(output, palette)}</pre>
+</body>
+</html>
+`;
+  }
+
+  private async saveToFile(
+    content: string,
+    format: TranscriptFormat,
+    projectPath: string | undefined
+  ): Promise<void> {
+    const { extension, label } = FORMATS[format];
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    const name = `transcript-${projectPath ? path.basename(projectPath) : 'terminal'}-${stamp}.${extension}`;
+    const folder = projectPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.file(path.join(folder, name)) : undefined,
+      filters: { [label]: [extension] },
+      saveLabel: 'Save Transcript',
+    });
+    if (!uri) return;
+
+    try {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save transcript: ${error}`);
+      return;
+    }
+
+    const answer = await vscode.window.showInformationMessage(
+      `Transcript saved to ${uri.fsPath}`,
+      'Open'
+    );
+    if (answer === 'Open') {
+      await vscode.window.showTextDocument(uri);
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ModelPrice, PtyProcess, TerminalUsage, TokenUsage } from '../types';
+import { DEFAULT_MODEL_PRICES, USAGE_POLL_INTERVAL_MS } from '../constants';
+import { SessionService } from './session-service';
+import { TabManager } from './tab-manager';
+import { WebviewMessenger } from './webview-messenger';
+
+/**
+ * Session file a running terminal writes to and what it has cost so far
+ */
+interface UsageBinding {
+  /** PTY process the binding belongs to, a restart starts a new binding */
+  ptyProcess: PtyProcess;
+  projectPath: string;
+  sessionId: string;
+  /** Session file, once it was written */
+  filePath?: string;
+  usage: TokenUsage;
+  cost: number;
+}
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.cacheCreationTokens += usage.cacheCreationTokens;
+}
+
+/**
+ * Tails the session file of every running terminal bound to a Claude
+ * session, sums its token usage and shows a cost estimate in the terminal header
+ */
+export class UsageService implements vscode.Disposable {
+  /** Bindings keyed by "tabId:terminalId" */
+  private bindings = new Map<string, UsageBinding>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private configListener: vscode.Disposable;
+
+  constructor(
+    private tabManager: TabManager,
+    private sessionService: SessionService,
+    private messenger: WebviewMessenger
+  ) {
+    this.timer = setInterval(() => this.poll(), USAGE_POLL_INTERVAL_MS);
+
+    // Recompute and resend every cost when prices or the header setting change
+    this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration('quadTerminal.modelPrices') ||
+        e.affectsConfiguration('quadTerminal.showCost')
+      ) {
+        for (const binding of this.bindings.values()) binding.cost = -1;
+        this.poll();
+      }
+    });
+  }
+
+  /**
+   * Read what running terminals appended to their session files
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const running = new Set<string>();
+      for (const [tabId, tabState] of this.tabManager.getAllTabs()) {
+        for (const [terminalId, ptyProcess] of tabState.ptyProcesses) {
+          const projectPath = tabState.terminalProjects.get(terminalId);
+          const sessionId = tabState.terminalSessions.get(terminalId);
+          if (!projectPath || !sessionId) continue;
+
+          const key = this.key(tabId, terminalId);
+          running.add(key);
+          let binding = this.bindings.get(key);
+          if (!binding || binding.ptyProcess !== ptyProcess || binding.sessionId !== sessionId) {
+            if (binding?.filePath) this.sessionService.forgetUsage(binding.filePath);
+            binding = { ptyProcess, projectPath, sessionId, usage: emptyUsage(), cost: 0 };
+            this.bindings.set(key, binding);
+          }
+          await this.update(tabId, terminalId, binding);
+        }
+      }
+
+      for (const key of Array.from(this.bindings.keys())) {
+        if (running.has(key)) continue;
+        const filePath = this.bindings.get(key)?.filePath;
+        if (filePath) this.sessionService.forgetUsage(filePath);
+        this.bindings.delete(key);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Usage of every running Claude terminal whose session file was found
+   */
+  getUsage(): TerminalUsage[] {
+    const result: TerminalUsage[] = [];
+    for (const [key, binding] of this.bindings) {
+      if (!binding.filePath) continue;
+      const [tabId, terminalId] = key.split(':').map(Number);
+      result.push({
+        tabId,
+        terminalId,
+        projectPath: binding.projectPath,
+        sessionId: binding.sessionId,
+        usage: binding.usage,
+        cost: binding.cost,
+      });
+    }
+    return result.sort((a, b) => a.tabId - b.tabId || a.terminalId - b.terminalId);
+  }
+
+  /**
+   * Send the known usage again, e.g. after the webview was rebuilt
+   */
+  replay(): void {
+    for (const usage of this.getUsage()) {
+      this.sendUsage(usage.tabId, usage.terminalId, usage.usage, usage.cost);
+    }
+  }
+
+  /**
+   * Show usage and cost per terminal, per tab and for the whole workspace
+   */
+  async showUsage(): Promise<void> {
+    await this.poll();
+    const terminals = this.getUsage();
+    if (terminals.length === 0) {
+      vscode.window.showInformationMessage('No running Claude session has reported token usage yet.');
+      return;
+    }
+
+    const workspaceUsage = emptyUsage();
+    let workspaceCost = 0;
+    const byTab = new Map<number, TerminalUsage[]>();
+    for (const terminal of terminals) {
+      addUsage(workspaceUsage, terminal.usage);
+      workspaceCost += terminal.cost;
+      byTab.set(terminal.tabId, [...(byTab.get(terminal.tabId) ?? []), terminal]);
+    }
+
+    const items: vscode.QuickPickItem[] = [
+      {
+        label: `$(pulse) Workspace · ${this.formatCost(workspaceCost)}`,
+        description: `${terminals.length} terminal${terminals.length === 1 ? '' : 's'}`,
+        detail: this.formatTokens(workspaceUsage),
+      },
+    ];
+    for (const [tabId, tabTerminals] of byTab) {
+      const tabUsage = emptyUsage();
+      let tabCost = 0;
+      for (const terminal of tabTerminals) {
+        addUsage(tabUsage, terminal.usage);
+        tabCost += terminal.cost;
+      }
+      items.push({
+        label: `Tab ${tabId} · ${this.formatCost(tabCost)}`,
+        kind: vscode.QuickPickItemKind.Separator,
+      });
+      items.push({
+        label: `$(layers) Tab ${tabId} total · ${this.formatCost(tabCost)}`,
+        detail: this.formatTokens(tabUsage),
+      });
+      for (const terminal of tabTerminals) {
+        items.push({
+          label: `$(terminal) Terminal ${terminal.terminalId + 1} · ${this.formatCost(terminal.cost)}`,
+          description: path.basename(terminal.projectPath),
+          detail: this.formatTokens(terminal.usage),
+        });
+      }
+    }
+
+    await vscode.window.showQuickPick(items, {
+      title: 'Token Usage',
+      placeHolder: 'Estimated from the session transcripts and quadTerminal.modelPrices',
+      matchOnDescription: true,
+    });
+  }
+
+  dispose(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.configListener.dispose();
+  }
+
+  private async update(tabId: number, terminalId: number, binding: UsageBinding): Promise<void> {
+    try {
+      if (!binding.filePath) {
+        binding.filePath = await this.sessionService.findSessionFile(
+          binding.projectPath,
+          binding.sessionId
+        );
+        if (!binding.filePath) return;
+      }
+
+      const byModel = await this.sessionService.readUsage(binding.filePath);
+      const usage = emptyUsage();
+      let cost = 0;
+      for (const [model, modelUsage] of byModel) {
+        addUsage(usage, modelUsage);
+        cost += this.getCost(model, modelUsage);
+      }
+
+      const changed =
+        cost !== binding.cost ||
+        (Object.keys(usage) as (keyof TokenUsage)[]).some((k) => usage[k] !== binding.usage[k]);
+      binding.usage = usage;
+      binding.cost = cost;
+      if (changed) this.sendUsage(tabId, terminalId, usage, cost);
+    } catch (error) {
+      // The session file may have been deleted, look for it again next time
+      console.warn('[UsageService] Cannot read usage of', binding.filePath, error);
+      binding.filePath = undefined;
+    }
+  }
+
+  private sendUsage(tabId: number, terminalId: number, usage: TokenUsage, cost: number): void {
+    const showCost = vscode.workspace.getConfiguration('quadTerminal').get<boolean>('showCost', true);
+    this.messenger.sendUsage(tabId, terminalId, showCost ? usage : undefined, cost);
+  }
+
+  /**
+   * Estimated cost of a model's usage, using the longest price key found in the model name
+   */
+  private getCost(model: string, usage: TokenUsage): number {
+    const prices = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<Record<string, ModelPrice>>('modelPrices', DEFAULT_MODEL_PRICES);
+    const name = model.toLowerCase();
+    const key = Object.keys(prices)
+      .filter((k) => name.includes(k.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    const price = key ? prices[key] : undefined;
+    if (!price) return 0;
+
+    return (
+      (usage.inputTokens * (price.input ?? 0) +
+        usage.outputTokens * (price.output ?? 0) +
+        usage.cacheReadTokens * (price.cacheRead ?? 0) +
+        usage.cacheCreationTokens * (price.cacheWrite ?? 0)) /
+      1_000_000
+    );
+  }
+
+  private formatCost(cost: number): string {
+    return `$${cost.toFixed(2)}`;
+  }
+
+  private formatTokens(usage: TokenUsage): string {
+    return (
+      `${usage.inputTokens.toLocaleString()} in · ${usage.outputTokens.toLocaleString()} out · ` +
+      `${usage.cacheReadTokens.toLocaleString()} cache read · ${usage.cacheCreationTokens.toLocaleString()} cache write`
+    );
+  }
+
+  private key(tabId: number, terminalId: number): string {
+    return `${tabId}:${terminalId}`;
+  }
+}
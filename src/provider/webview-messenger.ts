@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
 import {
   ExtensionToWebviewMessage,
+  GridLayout,
   Project,
   Session,
+  SplitRatios,
   TerminalConfig,
   TerminalStatus,
+  TokenUsage,
 } from '../types';
 
 /**
@@ -94,4 +97,65 @@ export class WebviewMessenger {
   sendTerminalStarted(tabId: number, terminalId: number, projectName: string): void {
     this.send({ command: 'terminalStarted', tabId, terminalId, projectName });
   }
+
+  /** Mark the slots of a tab that receive broadcast input, none when off */
+  sendBroadcast(tabId: number, terminalIds: number[]): void {
+    this.send({ command: 'broadcast', tabId, terminalIds });
+  }
+
+  /** Ask webview to search the buffers of all terminals */
+  sendSearchAll(requestId: number, query: string, regex: boolean, caseSensitive: boolean): void {
+    this.send({ command: 'searchAll', requestId, query, regex, caseSensitive });
+  }
+
+  /** Ask webview for a terminal's rendered buffer as ANSI text */
+  sendSerializeTerminal(requestId: number, tabId: number, terminalId: number): void {
+    this.send({ command: 'serializeTerminal', requestId, tabId, terminalId });
+  }
+
+  /** Scroll a terminal to a buffer line and select a range on it */
+  sendRevealLine(
+    tabId: number,
+    terminalId: number,
+    line: number,
+    column: number,
+    length: number
+  ): void {
+    this.send({ command: 'revealLine', tabId, terminalId, line, column, length });
+  }
+
+  /** Send a tab's grid layout to webview */
+  sendLayout(tabId: number, layout: GridLayout, splitRatios?: SplitRatios): void {
+    this.send({ command: 'layout', tabId, layout, splitRatios });
+  }
+
+  /** Mark or unmark a terminal as needing attention */
+  sendAttention(tabId: number, terminalId: number, attention: boolean): void {
+    this.send({ command: 'attention', tabId, terminalId, attention });
+  }
+
+  /** Switch to a terminal and give it keyboard focus */
+  sendFocusTerminal(tabId: number, terminalId: number): void {
+    this.send({ command: 'focusTerminal', tabId, terminalId });
+  }
+
+  /** Paste text into a terminal and focus it */
+  sendPasteText(tabId: number, terminalId: number, text: string): void {
+    this.send({ command: 'pasteText', tabId, terminalId, text });
+  }
+
+  /** Show a terminal's token usage and cost estimate, no usage clears it */
+  sendUsage(tabId: number, terminalId: number, usage: TokenUsage | undefined, cost: number): void {
+    this.send({ command: 'usage', tabId, terminalId, usage, cost });
+  }
+
+  /** Show the title of the session a terminal runs, no title clears it */
+  sendSessionTitle(tabId: number, terminalId: number, title: string | undefined): void {
+    this.send({ command: 'sessionTitle', tabId, terminalId, title });
+  }
+
+  /** Show the branch of a terminal's git worktree, no branch clears it */
+  sendWorktree(tabId: number, terminalId: number, branch: string | undefined): void {
+    this.send({ command: 'worktree', tabId, terminalId, branch });
+  }
 }
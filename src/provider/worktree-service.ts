@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worktree } from '../types';
+import { expandHome } from './claude-paths';
+import { getRepoRoot, runGit } from './git';
+
+/**
+ * Creates a git worktree on a new branch for a terminal, so parallel agents
+ * work on separate checkouts, and merges or removes it when the terminal is done
+ */
+export class WorktreeService {
+  /** Whether a project can be started in a worktree */
+  async isGitProject(projectPath: string): Promise<boolean> {
+    return (await getRepoRoot(projectPath)) !== undefined;
+  }
+
+  /**
+   * Ask for a branch name and create a worktree for it
+   * @returns The worktree, or undefined if cancelled or git failed
+   */
+  async createWorktree(projectPath: string): Promise<Worktree | undefined> {
+    const repoRoot = await getRepoRoot(projectPath);
+    if (!repoRoot) {
+      vscode.window.showErrorMessage(`${projectPath} is not in a git repository.`);
+      return undefined;
+    }
+
+    const branch = await vscode.window.showInputBox({
+      prompt: 'Branch for the new worktree',
+      value: `quad/${path.basename(projectPath)}-${Date.now().toString(36)}`,
+      validateInput: (value) => this.validateBranch(repoRoot, value),
+    });
+    if (!branch) return undefined;
+
+    const worktreePath = path.join(this.getWorktreeDirectory(repoRoot), branch.replace(/[\\/]/g, '-'));
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Creating worktree ${branch}` },
+        () => runGit(repoRoot, ['worktree', 'add', '-b', branch, worktreePath])
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create worktree: ${(error as Error).message}`);
+      return undefined;
+    }
+
+    console.log(`[WorktreeService] Created worktree ${worktreePath} on ${branch}`);
+    return { repoRoot, path: worktreePath, branch, projectPath };
+  }
+
+  /**
+   * Directory to start a terminal in: the project's place inside the worktree
+   */
+  getCwd(worktree: Worktree): string {
+    let relative = '';
+    try {
+      relative = path.relative(
+        fs.realpathSync(worktree.repoRoot),
+        fs.realpathSync(worktree.projectPath)
+      );
+    } catch {
+      // The project is gone, fall back to the worktree root
+    }
+    return relative && !relative.startsWith('..') ? path.join(worktree.path, relative) : worktree.path;
+  }
+
+  /**
+   * Ask what to do with a worktree whose terminal was closed: merge its
+   * branch, keep it for later or remove it
+   */
+  async offerCleanup(worktree: Worktree): Promise<void> {
+    if (!fs.existsSync(worktree.path)) return;
+
+    const answer = await vscode.window.showInformationMessage(
+      `The terminal ran in worktree "${worktree.branch}". What should happen to it?`,
+      'Merge',
+      'Keep',
+      'Remove'
+    );
+    if (answer === 'Merge') {
+      await this.merge(worktree);
+    } else if (answer === 'Remove') {
+      await this.remove(worktree);
+    }
+  }
+
+  /**
+   * Merge the worktree's branch into the branch checked out in the
+   * main working tree, then remove the worktree and its branch
+   */
+  private async merge(worktree: Worktree): Promise<void> {
+    try {
+      if (await this.hasUncommittedChanges(worktree)) {
+        vscode.window.showWarningMessage(
+          `Worktree "${worktree.branch}" has uncommitted changes. Commit them before merging, the worktree was kept.`
+        );
+        return;
+      }
+
+      const target = await runGit(worktree.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+      try {
+        await runGit(worktree.repoRoot, ['merge', '--no-ff', '--no-edit', worktree.branch]);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Merging "${worktree.branch}" into "${target}" failed, resolve it in ${worktree.repoRoot}. ` +
+            `The worktree was kept. ${(error as Error).message}`
+        );
+        return;
+      }
+
+      await runGit(worktree.repoRoot, ['worktree', 'remove', worktree.path]);
+      await runGit(worktree.repoRoot, ['branch', '-d', worktree.branch]);
+      vscode.window.showInformationMessage(`Merged "${worktree.branch}" into "${target}".`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to merge worktree: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remove the worktree and delete its branch, confirming first when work would be lost
+   */
+  private async remove(worktree: Worktree): Promise<void> {
+    try {
+      const dirty = await this.hasUncommittedChanges(worktree);
+      const unmerged = Number(
+        await runGit(worktree.repoRoot, ['rev-list', '--count', `HEAD..${worktree.branch}`])
+      );
+      if (dirty || unmerged > 0) {
+        const lost = [
+          dirty ? 'uncommitted changes' : undefined,
+          unmerged > 0 ? `${unmerged} unmerged commit${unmerged === 1 ? '' : 's'}` : undefined,
+        ]
+          .filter(Boolean)
+          .join(' and ');
+        const answer = await vscode.window.showWarningMessage(
+          `Worktree "${worktree.branch}" has ${lost}. Remove it anyway?`,
+          { modal: true },
+          'Remove'
+        );
+        if (answer !== 'Remove') return;
+      }
+
+      await runGit(worktree.repoRoot, ['worktree', 'remove', '--force', worktree.path]);
+      await runGit(worktree.repoRoot, ['branch', '-D', worktree.branch]);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to remove worktree: ${(error as Error).message}`);
+    }
+  }
+
+  private async hasUncommittedChanges(worktree: Worktree): Promise<boolean> {
+    return (await runGit(worktree.path, ['status', '--porcelain'])).length > 0;
+  }
+
+  /**
+   * Where worktrees of a repository are created: the worktreeDirectory
+   * setting (relative paths start at the repository) or a sibling
+   * "<repo>.worktrees" directory
+   */
+  private getWorktreeDirectory(repoRoot: string): string {
+    const configured = vscode.workspace
+      .getConfiguration('quadTerminal')
+      .get<string>('worktreeDirectory', '')
+      .trim();
+    if (!configured) {
+      return path.join(path.dirname(repoRoot), `${path.basename(repoRoot)}.worktrees`);
+    }
+    return path.resolve(repoRoot, expandHome(configured));
+  }
+
+  private async validateBranch(repoRoot: string, branch: string): Promise<string | undefined> {
+    if (!branch.trim()) return 'Enter a branch name';
+    try {
+      await runGit(repoRoot, ['check-ref-format', '--branch', branch]);
+    } catch {
+      return `"${branch}" is not a valid branch name`;
+    }
+    try {
+      await runGit(repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+      return `Branch "${branch}" already exists`;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * pty-host process: owns the terminal processes so they keep running while
+ * the extension host restarts. The extension connects over a local socket,
+ * see PtyHostRequest and PtyHostEvent for the protocol.
+ *
+ * Usage: node host.js <socket path>
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as pty from 'node-pty';
+import { PtyHostEvent, PtyHostRequest, PtySpawnOptions } from '../types';
+import { PTY_HOST_ORPHAN_TIMEOUT_MS } from '../constants';
+import { ScrollbackBuffer } from '../provider/scrollback-buffer';
+
+interface HostTerminal {
+  process: pty.IPty;
+  /** Output kept for an extension that reattaches */
+  scrollback: ScrollbackBuffer;
+  paused: boolean;
+}
+
+class PtyHost {
+  private terminals = new Map<string, HostTerminal>();
+  private server?: net.Server;
+  /** The connected extension, only one at a time */
+  private client?: net.Socket;
+  private orphanTimer?: NodeJS.Timeout;
+
+  constructor(private socketPath: string) {}
+
+  start(): void {
+    this.listen(true);
+    // Exit if the extension that started us never connects
+    this.scheduleShutdown();
+  }
+
+  private listen(retry: boolean): void {
+    const server = net.createServer((socket) => this.accept(socket));
+    // Create the socket accessible to the user only, there is no moment another
+    // user could connect. The terminals' shells get the user's umask back.
+    const umask = process.umask(0o077);
+    server.on('error', (error: NodeJS.ErrnoException) => {
+      process.umask(umask);
+      if (error.code !== 'EADDRINUSE' || !retry) {
+        process.exit(1);
+      }
+      // Another host may own the socket, otherwise it is left over from a crash
+      const probe = net.connect(this.socketPath);
+      probe.on('connect', () => {
+        probe.destroy();
+        process.exit(0);
+      });
+      probe.on('error', () => {
+        fs.rmSync(this.socketPath, { force: true });
+        this.listen(false);
+      });
+    });
+    server.listen(this.socketPath, () => process.umask(umask));
+    this.server = server;
+  }
+
+  private accept(socket: net.Socket): void {
+    // A new extension host replaces the one that went away
+    this.client?.destroy();
+    this.client = socket;
+    if (this.orphanTimer) clearTimeout(this.orphanTimer);
+    this.orphanTimer = undefined;
+
+    let buffered = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 1);
+        try {
+          this.handle(JSON.parse(line) as PtyHostRequest);
+        } catch {
+          // Ignore malformed requests
+        }
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      if (this.client !== socket) return;
+      this.client = undefined;
+      // Nobody acknowledges output now, let every process run
+      for (const terminal of this.terminals.values()) {
+        if (terminal.paused) terminal.process.resume();
+        terminal.paused = false;
+      }
+      if (this.terminals.size === 0) {
+        this.shutdown();
+      } else {
+        this.scheduleShutdown();
+      }
+    });
+  }
+
+  private handle(request: PtyHostRequest): void {
+    if (request.type === 'spawn') {
+      this.spawn(request.id, request.options);
+      return;
+    }
+    if (request.type === 'list') {
+      this.send({ type: 'list', requestId: request.requestId, ids: Array.from(this.terminals.keys()) });
+      return;
+    }
+
+    const terminal = this.terminals.get(request.id);
+    if (request.type === 'attach') {
+      this.send({
+        type: 'attached',
+        requestId: request.requestId,
+        id: request.id,
+        pid: terminal?.process.pid,
+        scrollback: terminal?.scrollback.toString(),
+      });
+      return;
+    }
+    if (!terminal) return;
+
+    switch (request.type) {
+      case 'write':
+        terminal.process.write(request.data);
+        break;
+      case 'resize':
+        try {
+          terminal.process.resize(request.cols, request.rows);
+        } catch {
+          // The process is exiting
+        }
+        break;
+      case 'kill':
+        try {
+          terminal.process.kill(request.signal);
+        } catch {
+          // Already gone
+        }
+        break;
+      case 'pause':
+        terminal.process.pause();
+        terminal.paused = true;
+        break;
+      case 'resume':
+        terminal.process.resume();
+        terminal.paused = false;
+        break;
+    }
+  }
+
+  private spawn(id: string, options: PtySpawnOptions): void {
+    let ptyProcess: pty.IPty;
+    try {
+      ptyProcess = pty.spawn(options.shell, options.args, {
+        name: options.env.TERM || 'xterm-256color',
+        cols: options.cols,
+        rows: options.rows,
+        cwd: options.cwd,
+        env: options.env,
+      });
+    } catch (error) {
+      this.send({ type: 'spawnError', id, message: String(error) });
+      return;
+    }
+
+    const terminal: HostTerminal = {
+      process: ptyProcess,
+      scrollback: new ScrollbackBuffer(options.scrollbackSize),
+      paused: false,
+    };
+    this.terminals.set(id, terminal);
+    this.send({ type: 'spawned', id, pid: ptyProcess.pid });
+
+    ptyProcess.onData((data) => {
+      terminal.scrollback.append(data);
+      this.send({ type: 'data', id, data });
+    });
+    ptyProcess.onExit(({ exitCode, signal }) => {
+      this.terminals.delete(id);
+      this.send({ type: 'exit', id, exitCode, signal });
+      if (!this.client && this.terminals.size === 0) {
+        this.shutdown();
+      }
+    });
+  }
+
+  private send(event: PtyHostEvent): void {
+    this.client?.write(`${JSON.stringify(event)}\n`);
+  }
+
+  /**
+   * Stop every terminal once no extension connected for a while, e.g.
+   * because the window was closed
+   */
+  private scheduleShutdown(): void {
+    if (this.orphanTimer) clearTimeout(this.orphanTimer);
+    this.orphanTimer = setTimeout(() => {
+      if (!this.client) this.shutdown();
+    }, PTY_HOST_ORPHAN_TIMEOUT_MS);
+  }
+
+  private shutdown(): void {
+    for (const terminal of this.terminals.values()) {
+      try {
+        terminal.process.kill();
+      } catch {
+        // Already gone
+      }
+    }
+    this.server?.close();
+    if (process.platform !== 'win32') {
+      fs.rmSync(this.socketPath, { force: true });
+    }
+    process.exit(0);
+  }
+}
+
+const socketPath = process.argv[2];
+if (!socketPath) {
+  process.exit(1);
+}
+new PtyHost(socketPath).start();
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ansiToHtml, ansiToText } from '../provider/ansi';
+
+test('ansiToText: drops escape sequences and applies carriage returns', () => {
+  assert.equal(ansiToText('\x1b[1mbold\x1b[0m\r\nspin |\rspin /\r\ndone  '), 'bold\nspin /\ndone');
+});
+
+test('ansiToText: turns cursor forward sequences into spaces', () => {
+  assert.equal(ansiToText('a\x1b[3Cb\x1b[Cc'), 'a   b c');
+});
+
+test('ansiToHtml: keeps the background of skipped cells', () => {
+  assert.equal(
+    ansiToHtml('\x1b[41m\x1b[2C\x1b[0mx', ['#000000', '#ff0000']),
+    '<span style="background:#ff0000">  </span>x'
+  );
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encodeProjectPath, expandHome, findProjectDir, normalizeProjectPath } from '../provider/claude-paths';
+
+interface PathFixture {
+  shape: string;
+  path: string;
+  encoded: string;
+}
+
+/** Project paths and the directory names the Claude CLI gives them */
+const fixtures: PathFixture[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'project-paths.json'), 'utf8')
+);
+
+/** A projects directory with one project directory per entry, each holding a session recording cwd */
+function createProjectsDir(projects: Record<string, string>): string {
+  const projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quad-terminal-test-'));
+  for (const [dir, cwd] of Object.entries(projects)) {
+    fs.mkdirSync(path.join(projectsDir, dir));
+    fs.writeFileSync(
+      path.join(projectsDir, dir, 'session.jsonl'),
+      `${JSON.stringify({ type: 'user', cwd })}\n`
+    );
+  }
+  return projectsDir;
+}
+
+for (const fixture of fixtures) {
+  test(`encodeProjectPath: ${fixture.shape}`, () => {
+    assert.equal(encodeProjectPath(fixture.path), fixture.encoded);
+  });
+}
+
+test('findProjectDir: finds the encoded directory', async (t) => {
+  const projectsDir = createProjectsDir({ '-home-dev-my-app': '/home/dev/my_app' });
+  t.after(() => fs.rmSync(projectsDir, { recursive: true, force: true }));
+
+  assert.equal(await findProjectDir('/home/dev/my_app', projectsDir), path.join(projectsDir, '-home-dev-my-app'));
+});
+
+test('findProjectDir: falls back to the cwd recorded in the sessions', async (t) => {
+  const projectsDir = createProjectsDir({
+    'other-project': '/home/dev/other',
+    'renamed-by-an-older-cli': '/home/dev/my_app',
+  });
+  t.after(() => fs.rmSync(projectsDir, { recursive: true, force: true }));
+
+  assert.equal(
+    await findProjectDir('/home/dev/my_app/', projectsDir),
+    path.join(projectsDir, 'renamed-by-an-older-cli')
+  );
+});
+
+test('findProjectDir: does not rescan after a miss, but still finds the encoded directory', async (t) => {
+  const projectsDir = createProjectsDir({ 'other-project': '/home/dev/other' });
+  t.after(() => fs.rmSync(projectsDir, { recursive: true, force: true }));
+
+  assert.equal(await findProjectDir('/home/dev/new_app', projectsDir), undefined);
+
+  // Only a rescan would find this one
+  fs.mkdirSync(path.join(projectsDir, 'found-by-scan'));
+  fs.writeFileSync(
+    path.join(projectsDir, 'found-by-scan', 'session.jsonl'),
+    `${JSON.stringify({ cwd: '/home/dev/new_app' })}\n`
+  );
+  assert.equal(await findProjectDir('/home/dev/new_app', projectsDir), undefined);
+
+  fs.mkdirSync(path.join(projectsDir, '-home-dev-new-app'));
+  assert.equal(await findProjectDir('/home/dev/new_app', projectsDir), path.join(projectsDir, '-home-dev-new-app'));
+});
+
+test('normalizeProjectPath: folds case on darwin and win32 only', () => {
+  assert.equal(
+    normalizeProjectPath('/Users/Foo/App/', 'darwin'),
+    normalizeProjectPath('/users/foo/app', 'darwin')
+  );
+  assert.equal(
+    normalizeProjectPath('C:\\Users\\Foo\\App\\', 'win32'),
+    normalizeProjectPath('c:\\users\\foo\\app', 'win32')
+  );
+  assert.notEqual(
+    normalizeProjectPath('/home/Foo/App', 'linux'),
+    normalizeProjectPath('/home/foo/app', 'linux')
+  );
+  assert.equal(normalizeProjectPath('/home/foo/app/', 'linux'), '/home/foo/app');
+});
+
+test('expandHome: expands ~ and ~/ only', () => {
+  assert.equal(expandHome('~'), os.homedir());
+  assert.equal(expandHome('~/projects/app'), path.join(os.homedir(), 'projects/app'));
+  assert.equal(expandHome('~other/app'), '~other/app');
+  assert.equal(expandHome('/srv/app'), '/srv/app');
+});
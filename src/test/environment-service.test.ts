@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinCommands } from '../provider/environment-service';
+
+const commands = ['nvm use', 'source .venv/bin/activate', 'claude'];
+
+test('joinCommands: chains with && in POSIX shells and cmd.exe', () => {
+  assert.equal(joinCommands(commands, '/bin/zsh'), 'nvm use && source .venv/bin/activate && claude');
+  assert.equal(joinCommands(['nvm use', 'claude'], 'C:\\Windows\\System32\\cmd.exe'), 'nvm use && claude');
+});
+
+test('joinCommands: runs each command only if the previous succeeded in PowerShell', () => {
+  assert.equal(
+    joinCommands(commands, 'powershell.exe'),
+    'nvm use; if ($?) { source .venv/bin/activate; if ($?) { claude } }'
+  );
+  assert.equal(joinCommands(['claude'], 'C:\\Program Files\\PowerShell\\7\\pwsh.exe'), 'claude');
+});
@@ -0,0 +1,16 @@
+/**
+ * Loaded with node --require before the unit tests: resolves the vscode
+ * module, which only the extension host provides, to ./vscode
+ */
+import Module = require('module');
+
+const moduleWithResolve = Module as unknown as {
+  _resolveFilename: (request: string, ...rest: unknown[]) => string;
+};
+const resolveFilename = moduleWithResolve._resolveFilename;
+moduleWithResolve._resolveFilename = function (request: string, ...rest: unknown[]): string {
+  if (request === 'vscode') {
+    return require.resolve('./vscode');
+  }
+  return resolveFilename.call(this, request, ...rest);
+};
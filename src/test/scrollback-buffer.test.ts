@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ScrollbackBuffer } from '../provider/scrollback-buffer';
+
+test('ScrollbackBuffer: drops the oldest lines once full', () => {
+  const buffer = new ScrollbackBuffer(10);
+  buffer.append('one\ntwo\n');
+  buffer.append('three\n');
+  assert.equal(buffer.toString(), 'three\n');
+  assert.equal(buffer.size, 6);
+});
+
+test('ScrollbackBuffer: keeps the history after a replay joined it into one chunk', () => {
+  const buffer = new ScrollbackBuffer(12);
+  buffer.append('line one\n');
+  buffer.toString();
+  buffer.append('abcdef');
+  assert.equal(buffer.toString(), 'abcdef');
+
+  buffer.append('ghijkl');
+  assert.equal(buffer.toString(), 'abcdefghijkl');
+  buffer.append('mno');
+  assert.equal(buffer.toString(), 'defghijklmno');
+});
+
+test('ScrollbackBuffer: keeps the tail of output larger than the buffer without line breaks', () => {
+  const buffer = new ScrollbackBuffer(8);
+  buffer.append('0123456789abcdef');
+  assert.equal(buffer.toString(), '89abcdef');
+});
+
+test('ScrollbackBuffer: starts at an escape sequence or carriage return instead of inside one', () => {
+  const buffer = new ScrollbackBuffer(12);
+  buffer.append('\x1b[31mredraw\x1b[0m\x1b[2Kdone');
+  assert.equal(buffer.toString(), '\x1b[0m\x1b[2Kdone');
+
+  buffer.clear();
+  buffer.append('spinner |\rspinner /');
+  assert.equal(buffer.toString(), '\rspinner /');
+});
@@ -0,0 +1,9 @@
+/**
+ * The parts of the vscode module the unit tests reach, outside VS Code.
+ * Settings read through it always have their default value.
+ */
+export const workspace = {
+  getConfiguration: () => ({
+    get: <T>(_key: string, defaultValue?: T): T | undefined => defaultValue,
+  }),
+};
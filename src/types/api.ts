@@ -0,0 +1,84 @@
+import type { Event } from 'vscode';
+import type { TerminalMode, TerminalStatus, TerminalStatusChange } from './state';
+
+/**
+ * A terminal slot: the tab and the slot's index in the tab's grid,
+ * starting at 0 for the top-left slot
+ */
+export interface TerminalRef {
+  tabId: number;
+  terminalId: number;
+}
+
+/**
+ * What to start with QuadTerminalApi.startInSlot
+ */
+export interface StartInSlotOptions {
+  /** Directory the terminal starts in */
+  projectPath: string;
+  /** Tab to start in, defaults to the active tab */
+  tabId?: number;
+  /** Slot to start in, defaults to the first free slot */
+  terminalId?: number;
+  /** Launch profile name, defaults to the project's remembered profile */
+  profile?: string;
+  /** Session to resume */
+  sessionId?: string;
+  /** Open an empty shell without starting the agent */
+  shell?: boolean;
+  /** Text submitted once the agent or shell is ready for input */
+  prompt?: string;
+}
+
+/**
+ * A running terminal as reported by QuadTerminalApi.listTerminals
+ */
+export interface TerminalInfo extends TerminalRef {
+  projectPath: string;
+  projectName: string;
+  mode: TerminalMode;
+  status?: TerminalStatus;
+  sessionId?: string;
+  profileName?: string;
+  /** Branch of the git worktree the terminal runs in */
+  worktreeBranch?: string;
+  /** Whether the terminal has keyboard focus in the grid */
+  focused: boolean;
+}
+
+/**
+ * Output a terminal wrote, in the batches sent to the grid
+ */
+export interface TerminalOutputEvent extends TerminalRef {
+  data: string;
+}
+
+/**
+ * API returned by activate, other extensions get it as the extension's exports
+ */
+export interface QuadTerminalApi {
+  /** Fires when a terminal's status changes */
+  readonly onDidChangeStatus: Event<TerminalStatusChange>;
+  /** Fires when a terminal wrote output */
+  readonly onDidWriteOutput: Event<TerminalOutputEvent>;
+
+  /**
+   * Start a terminal in a project, resolving once it runs and, when a
+   * prompt is given, once the prompt was submitted
+   * @throws When the slot is taken or does not exist
+   */
+  startInSlot(options: StartInSlotOptions): Promise<TerminalRef>;
+  /**
+   * Type text into a terminal, followed by Enter when submit is set
+   * @throws When no terminal runs in the slot
+   */
+  sendText(target: TerminalRef, text: string, submit?: boolean): Promise<void>;
+  /** Kill a terminal */
+  kill(target: TerminalRef): Promise<void>;
+  /** Restart a terminal with the same project, profile and session */
+  restart(target: TerminalRef): Promise<void>;
+  /** Show the grid, switch to the terminal's tab and focus the terminal */
+  focusSlot(target: TerminalRef): Promise<void>;
+  /** Every running terminal */
+  listTerminals(): TerminalInfo[];
+}
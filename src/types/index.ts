@@ -1,2 +1,4 @@
 export * from './state';
 export * from './messages';
+export * from './pty-host';
+export * from './api';
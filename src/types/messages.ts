@@ -1,4 +1,12 @@
-import { Project, TerminalConfig, TerminalStatus, Session } from './state';
+import {
+  Project,
+  TerminalConfig,
+  TerminalStatus,
+  Session,
+  GridLayout,
+  SplitRatios,
+  TokenUsage,
+} from './state';
 
 // ============================================
 // Webview -> Extension Messages
@@ -16,6 +24,7 @@ export interface SelectProjectMessage {
   resume: boolean;
   sessionId?: string; // Optional: specific session to resume
   skipClaude?: boolean; // Optional: open empty terminal without starting Claude
+  profile?: string; // Optional: launch profile name
 }
 
 export interface InputMessage {
@@ -25,6 +34,14 @@ export interface InputMessage {
   data: string;
 }
 
+/** xterm wrote an output message, releasing its characters for flow control */
+export interface OutputAckMessage {
+  command: 'outputAck';
+  tabId: number;
+  terminalId: number;
+  length: number;
+}
+
 export interface ResizeMessage {
   command: 'resize';
   tabId: number;
@@ -45,6 +62,50 @@ export interface RestartMessage {
   terminalId: number;
 }
 
+export interface ExportTranscriptMessage {
+  command: 'exportTranscript';
+  tabId: number;
+  terminalId: number;
+}
+
+export interface ReviewChangesMessage {
+  command: 'reviewChanges';
+  tabId: number;
+  terminalId: number;
+}
+
+export interface ToggleBroadcastMessage {
+  command: 'toggleBroadcast';
+  tabId: number;
+}
+
+export interface SearchResultsMessage {
+  command: 'searchResults';
+  requestId: number;
+  matches: SearchMatch[];
+}
+
+/**
+ * A terminal's rendered buffer, null when the slot has no terminal
+ */
+export interface TerminalSerializedMessage {
+  command: 'terminalSerialized';
+  requestId: number;
+  data: string | null;
+}
+
+/**
+ * A match found in a terminal's buffer, line is the buffer row
+ */
+export interface SearchMatch {
+  tabId: number;
+  terminalId: number;
+  line: number;
+  column: number;
+  length: number;
+  text: string;
+}
+
 export interface ResolveDropMessage {
   command: 'resolveDrop';
   tabId: number;
@@ -62,9 +123,8 @@ export interface DropData {
 
 export interface OpenFileMessage {
   command: 'openFile';
-  filePath: string;
-  line?: number;
-  column?: number;
+  /** Link text as shown in the terminal, resolved by the extension */
+  text: string;
   tabId?: number;
   terminalId?: number;
 }
@@ -103,14 +163,38 @@ export interface ShowProjectPickerMessage {
   command: 'showProjectPicker';
 }
 
+export interface TerminalFocusMessage {
+  command: 'terminalFocus';
+  /** Omitted when no terminal has focus */
+  tabId?: number;
+  terminalId?: number;
+}
+
+export interface SetSplitRatiosMessage {
+  command: 'setSplitRatios';
+  tabId: number;
+  splitRatios: SplitRatios;
+}
+
+export interface ShowLayoutPickerMessage {
+  command: 'showLayoutPicker';
+  tabId: number;
+}
+
 /** All messages that can be sent from webview to extension */
 export type WebviewToExtensionMessage =
   | ReadyMessage
   | SelectProjectMessage
   | InputMessage
+  | OutputAckMessage
   | ResizeMessage
   | KillMessage
   | RestartMessage
+  | ExportTranscriptMessage
+  | ReviewChangesMessage
+  | ToggleBroadcastMessage
+  | SearchResultsMessage
+  | TerminalSerializedMessage
   | ResolveDropMessage
   | OpenFileMessage
   | OpenUrlMessage
@@ -119,7 +203,10 @@ export type WebviewToExtensionMessage =
   | SwitchTabMessage
   | CloseTabMessage
   | GetSessionsMessage
-  | ShowProjectPickerMessage;
+  | ShowProjectPickerMessage
+  | TerminalFocusMessage
+  | SetSplitRatiosMessage
+  | ShowLayoutPickerMessage;
 
 // ============================================
 // Extension -> Webview Messages
@@ -214,6 +301,89 @@ export interface TerminalStartedMessage {
   projectName: string;
 }
 
+export interface AttentionMessage {
+  command: 'attention';
+  tabId: number;
+  terminalId: number;
+  attention: boolean;
+}
+
+export interface UsageMessage {
+  command: 'usage';
+  tabId: number;
+  terminalId: number;
+  /** Undefined clears the usage shown in the header */
+  usage?: TokenUsage;
+  cost: number;
+}
+
+export interface SessionTitleMessage {
+  command: 'sessionTitle';
+  tabId: number;
+  terminalId: number;
+  /** Undefined clears the title shown in the header */
+  title?: string;
+}
+
+export interface WorktreeMessage {
+  command: 'worktree';
+  tabId: number;
+  terminalId: number;
+  /** Branch of the terminal's worktree, undefined clears it */
+  branch?: string;
+}
+
+export interface LayoutMessage {
+  command: 'layout';
+  tabId: number;
+  layout: GridLayout;
+  splitRatios?: SplitRatios;
+}
+
+export interface SearchAllMessage {
+  command: 'searchAll';
+  requestId: number;
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SerializeTerminalMessage {
+  command: 'serializeTerminal';
+  requestId: number;
+  tabId: number;
+  terminalId: number;
+}
+
+export interface RevealLineMessage {
+  command: 'revealLine';
+  tabId: number;
+  terminalId: number;
+  line: number;
+  column: number;
+  length: number;
+}
+
+export interface BroadcastMessage {
+  command: 'broadcast';
+  tabId: number;
+  terminalIds: number[];
+}
+
+export interface FocusTerminalMessage {
+  command: 'focusTerminal';
+  tabId: number;
+  terminalId: number;
+}
+
+/** Paste text into a terminal as if the user pasted it, then focus the terminal */
+export interface PasteTextMessage {
+  command: 'pasteText';
+  tabId: number;
+  terminalId: number;
+  text: string;
+}
+
 /** All messages that can be sent from extension to webview */
 export type ExtensionToWebviewMessage =
   | ProjectsMessage
@@ -230,4 +400,15 @@ export type ExtensionToWebviewMessage =
   | TabSwitchedMessage
   | RestartingMessage
   | SessionsMessage
-  | TerminalStartedMessage;
+  | TerminalStartedMessage
+  | AttentionMessage
+  | FocusTerminalMessage
+  | PasteTextMessage
+  | LayoutMessage
+  | BroadcastMessage
+  | SearchAllMessage
+  | SerializeTerminalMessage
+  | RevealLineMessage
+  | UsageMessage
+  | SessionTitleMessage
+  | WorktreeMessage;
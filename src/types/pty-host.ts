@@ -0,0 +1,41 @@
+/**
+ * Protocol between the extension and the pty-host process that owns the
+ * terminal processes. Messages are JSON, one per line, over a local socket.
+ */
+
+/**
+ * How the pty host starts a terminal process
+ */
+export interface PtySpawnOptions {
+  shell: string;
+  args: string[];
+  cwd: string;
+  env: { [key: string]: string };
+  cols: number;
+  rows: number;
+  /** Characters of output the host keeps for reattaching */
+  scrollbackSize: number;
+}
+
+/** Messages from the extension to the pty host */
+export type PtyHostRequest =
+  | { type: 'spawn'; id: string; options: PtySpawnOptions }
+  | { type: 'write'; id: string; data: string }
+  | { type: 'resize'; id: string; cols: number; rows: number }
+  | { type: 'kill'; id: string; signal?: string }
+  | { type: 'pause'; id: string }
+  | { type: 'resume'; id: string }
+  /** List the running processes */
+  | { type: 'list'; requestId: number }
+  /** Get a running process's pid and buffered output to take it over */
+  | { type: 'attach'; requestId: number; id: string };
+
+/** Messages from the pty host to the extension */
+export type PtyHostEvent =
+  | { type: 'spawned'; id: string; pid: number }
+  | { type: 'spawnError'; id: string; message: string }
+  | { type: 'data'; id: string; data: string }
+  | { type: 'exit'; id: string; exitCode: number; signal?: number }
+  | { type: 'list'; requestId: number; ids: string[] }
+  /** pid and scrollback are missing when the process is gone */
+  | { type: 'attached'; requestId: number; id: string; pid?: number; scrollback?: string };
@@ -1,13 +1,26 @@
-import * as pty from 'node-pty';
+import type { PromptDetector } from '../provider/prompt-detector';
+import type { AgentStateTracker } from '../provider/agent-state';
+import type { ScrollbackBuffer } from '../provider/scrollback-buffer';
 
 /**
- * Represents a workspace project that can be opened in a terminal
+ * Where a project offered in the project picker comes from
+ */
+export type ProjectSource = 'workspace' | 'pinned' | 'discovered' | 'recent';
+
+/**
+ * Represents a project that can be opened in a terminal
  */
 export interface Project {
   name: string;
   path: string;
+  source?: ProjectSource;
 }
 
+/**
+ * Entry of the pinnedProjects setting, a path or a named path
+ */
+export type PinnedProject = string | { name?: string; path: string };
+
 /**
  * Terminal configuration received from VS Code settings
  */
@@ -49,25 +62,176 @@ export interface TerminalColors {
 }
 
 /**
- * State for a single tab containing up to 4 terminals
+ * Grid layout of a tab as rows x columns
+ */
+export type GridLayout = 'auto' | '1x1' | '1x2' | '2x1' | '1x3' | '2x2' | '2x3' | '3x3';
+
+/**
+ * Relative sizes of grid columns and rows, each list sums to 1
+ */
+export interface SplitRatios {
+  columns: number[];
+  rows: number[];
+}
+
+/**
+ * State for a single tab containing the terminals of its grid layout
  */
 export interface TabState {
-  /** Map of terminal ID (0-3) to PTY process */
-  ptyProcesses: Map<number, pty.IPty>;
+  /** Grid layout of the tab */
+  layout: GridLayout;
+  /** Splitter positions, equal sizes when unset */
+  splitRatios?: SplitRatios;
+  /** Slots that receive input typed into any of them, unset when broadcast is off */
+  broadcastTargets?: Set<number>;
+  /** Map of terminal ID (slot index in the grid) to PTY process */
+  ptyProcesses: Map<number, PtyProcess>;
   /** Map of terminal ID to project path */
   terminalProjects: Map<number, string>;
   /** Map of terminal ID to idle timeout timer */
   idleTimers: Map<number, NodeJS.Timeout>;
-  /** Map of terminal ID to busy state */
-  terminalBusy: Map<number, boolean>;
+  /** Map of terminal ID to current status */
+  terminalStatus: Map<number, TerminalStatus>;
+  /** Map of terminal ID to the tracker deriving agent state from output */
+  stateTrackers: Map<number, AgentStateTracker>;
   /** Map of terminal ID to pending claude command timeout */
   claudeCommandTimeouts: Map<number, NodeJS.Timeout>;
+  /** Map of terminal ID to the detector waiting for the first shell prompt */
+  promptDetectors: Map<number, PromptDetector>;
+  /** Map of terminal ID to recent raw output, replayed when the webview is rebuilt */
+  scrollback: Map<number, ScrollbackBuffer>;
+  /** Map of terminal ID to what was launched in it */
+  terminalModes: Map<number, TerminalMode>;
+  /** Map of terminal ID to the Claude session it is running, when known */
+  terminalSessions: Map<number, string>;
+  /** Terminals whose session id was assigned at launch but whose session file was not written yet */
+  newSessions: Set<number>;
+  /** Map of terminal ID to the launch profile name used to start it */
+  terminalProfiles: Map<number, string>;
+  /** Map of terminal ID to the git worktree it was started in */
+  terminalWorktrees: Map<number, Worktree>;
+}
+
+/**
+ * A terminal process, running in the pty host or in the extension host.
+ * Matches the part of node-pty's IPty the extension uses.
+ */
+export interface PtyProcess {
+  /** Id of the process in the pty host, undefined when it runs in the extension host */
+  readonly hostId?: string;
+  /** OS process id, 0 until the pty host reported it */
+  readonly pid: number;
+  onData(listener: (data: string) => void): { dispose(): void };
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): { dispose(): void };
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * Options for starting a terminal in a slot
+ */
+export interface TerminalLaunchOptions {
+  /** Session to resume */
+  sessionId?: string;
+  /** Resume the session as a new fork instead of continuing it */
+  forkSession?: boolean;
+  /** Id for a new session, generated when the profile can assign one */
+  newSessionId?: string;
+  /** Git worktree the terminal runs in, the project path is inside it */
+  worktree?: Worktree;
+  /** Open an empty shell without starting the agent */
+  skipClaude?: boolean;
+  /** Launch profile name, defaults to the project's remembered profile */
+  profileName?: string;
 }
 
 /**
- * Terminal ID type - valid values are 0, 1, 2, 3
+ * Named agent launch configuration from the quadTerminal.launchProfiles setting
  */
-export type TerminalId = 0 | 1 | 2 | 3;
+export interface LaunchProfile {
+  name: string;
+  /** Executable or wrapper script to run */
+  command: string;
+  /** Extra arguments appended after the built-in flags */
+  args?: string[];
+  /** Environment overrides, null removes a variable */
+  env?: Record<string, string | null>;
+  /** Pass --dangerously-skip-permissions */
+  skipPermissions?: boolean;
+  /** Pass --model with this value */
+  model?: string;
+  /** Pass --add-dir for each entry */
+  addDirs?: string[];
+  /** Arguments used to resume a session, ${sessionId} is substituted */
+  resumeArgs?: string[];
+  /** Arguments added after resumeArgs to fork the resumed session */
+  forkArgs?: string[];
+  /**
+   * Arguments that start a new session with a given id, ${sessionId} is
+   * substituted. Defaults to --session-id for the claude command and to
+   * none otherwise, the session is then detected from its file.
+   */
+  sessionIdArgs?: string[];
+}
+
+/**
+ * Shell and environment of a project's terminals, from the
+ * quadTerminal.projectEnvironments setting or a .quadterminal.json file
+ */
+export interface ProjectEnvironment {
+  /** Shell executable, defaults to the VS Code default terminal profile */
+  shell?: string;
+  /** Arguments passed to the shell */
+  shellArgs?: string[];
+  /** Environment overrides, null removes a variable */
+  env?: Record<string, string | null>;
+  /** Dotenv file loaded into the environment, relative to the project */
+  envFile?: string;
+  /** Commands typed into the shell before the agent starts, e.g. "nvm use" */
+  preLaunchCommands?: string[];
+}
+
+/**
+ * Resolved shell, environment and startup commands of a terminal
+ */
+export interface ShellLaunch {
+  shell: string;
+  args: string[];
+  env: { [key: string]: string | undefined };
+  preLaunchCommands: string[];
+}
+
+/**
+ * Output throughput of a terminal since it started, for debugging
+ */
+export interface OutputMetrics {
+  tabId: number;
+  terminalId: number;
+  /** When the terminal started, in ms since the epoch */
+  startedAt: number;
+  /** Data events received from the PTY */
+  chunks: number;
+  /** Output messages posted to the webview */
+  messages: number;
+  /** Characters of output */
+  characters: number;
+  /** Characters in the largest message */
+  largestMessage: number;
+  /** Characters posted but not yet written by xterm */
+  unacknowledged: number;
+  /** Times the PTY was paused because the webview fell behind */
+  pauses: number;
+  /** Total time in ms the PTY was paused */
+  pausedMs: number;
+}
+
+/**
+ * Terminal ID type - slot index in the tab's grid, from 0 to the layout's slot count
+ */
+export type TerminalId = number;
 
 /**
  * Tab ID type - positive integers starting from 1
@@ -75,9 +239,73 @@ export type TerminalId = 0 | 1 | 2 | 3;
 export type TabId = number;
 
 /**
- * Terminal status for UI display
+ * Terminal status for UI display. Shell terminals are idle or busy,
+ * agent terminals move through the remaining states.
+ */
+export type TerminalStatus =
+  | 'idle'
+  | 'busy'
+  | 'starting'
+  | 'thinking'
+  | 'running-tool'
+  | 'awaiting-permission'
+  | 'awaiting-input'
+  | 'exited'
+  | 'error';
+
+/**
+ * A terminal's status changed
+ */
+export interface TerminalStatusChange {
+  tabId: number;
+  terminalId: number;
+  status: TerminalStatus;
+  previous?: TerminalStatus;
+}
+
+/**
+ * What a terminal slot was started with: Claude or a plain shell
+ */
+export type TerminalMode = 'claude' | 'shell';
+
+/**
+ * How saved layouts are restored when the view is resolved
+ */
+export type RestoreMode = 'auto' | 'ask' | 'never';
+
+/**
+ * A terminal slot as saved to workspace state
+ */
+export interface SavedTerminal {
+  terminalId: number;
+  projectPath: string;
+  mode: TerminalMode;
+  sessionId?: string;
+  /** Session id assigned at launch whose file was not written yet, kept for reattaching */
+  newSessionId?: string;
+  /** Process in the pty host, reattached when it is still running */
+  ptyHostId?: string;
+  profileName?: string;
+  worktree?: Worktree;
+}
+
+/**
+ * A tab as saved to workspace state
+ */
+export interface SavedTab {
+  terminals: SavedTerminal[];
+  layout?: GridLayout;
+  splitRatios?: SplitRatios;
+}
+
+/**
+ * Tabs and terminal slots saved across window reloads
  */
-export type TerminalStatus = 'idle' | 'busy';
+export interface SavedLayout {
+  /** Index into tabs of the tab that was active */
+  activeTabIndex: number;
+  tabs: SavedTab[];
+}
 
 /**
  * Represents a Claude Code session for a project
@@ -86,4 +314,98 @@ export interface Session {
   sessionId: string;
   lastMessage: string;
   lastModified: string; // ISO timestamp
-}
\ No newline at end of file
+  /** User given title, shown instead of lastMessage */
+  title?: string;
+}
+/**
+ * Summary of a Claude Code session used to list and sort sessions
+ */
+export interface SessionInfo {
+  sessionId: string;
+  /** Path of the session's JSONL file */
+  filePath: string;
+  /** Last modification time in epoch ms */
+  modified: number;
+  /** Creation time in epoch ms, when known */
+  created?: number;
+  messageCount: number;
+  firstPrompt: string;
+  summary?: string;
+  gitBranch?: string;
+  /** User given title from the extension's session metadata */
+  title?: string;
+  /** Hidden from the default session lists */
+  archived?: boolean;
+}
+
+/**
+ * Titles and archive flags the extension keeps per Claude session
+ */
+export interface SessionMetadata {
+  title?: string;
+  archived?: boolean;
+}
+
+/**
+ * Tokens reported by the API for a session or terminal
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+/**
+ * Git worktree a terminal was started in
+ */
+export interface Worktree {
+  /** Main working tree of the repository */
+  repoRoot: string;
+  /** Directory of the worktree */
+  path: string;
+  branch: string;
+  /** Project the worktree was created for */
+  projectPath: string;
+}
+
+/**
+ * Fired when a terminal was spawned or reattached
+ */
+export interface TerminalStartEvent {
+  tabId: number;
+  terminalId: number;
+  projectPath: string;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Usage of the session a running terminal writes to
+ */
+export interface TerminalUsage {
+  tabId: number;
+  terminalId: number;
+  projectPath: string;
+  sessionId?: string;
+  usage: TokenUsage;
+  /** Estimated cost in USD, 0 for models without a price */
+  cost: number;
+}
+
+/**
+ * Everything shown in the session browser's preview before resuming
+ */
+export interface SessionPreview extends SessionInfo {
+  lastPrompt?: string;
+  lastResponse?: string;
+  usage: TokenUsage;
+}
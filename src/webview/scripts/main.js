@@ -7,12 +7,108 @@ const tabState = {
     fitAddons: [],
     terminalInitialized: [false, false, false, false],
     terminalProjects: ['', '', '', ''],
-    visibleTerminalCount: 1
+    visibleTerminalCount: 1,
+    layout: 'auto',
+    splitRatios: null,
+    broadcastTargets: [],
+    searchAddons: [],
+    serializeAddons: []
   }
 };
 let activeTabId = 1;
 let nextTabId = 2;
 
+// Grid layouts as rows x columns, 'auto' grows up to 2x2 as terminals are added
+const GRID_LAYOUTS = {
+  auto: { rows: 2, cols: 2 },
+  '1x1': { rows: 1, cols: 1 },
+  '1x2': { rows: 1, cols: 2 },
+  '2x1': { rows: 2, cols: 1 },
+  '1x3': { rows: 1, cols: 3 },
+  '2x2': { rows: 2, cols: 2 },
+  '2x3': { rows: 2, cols: 3 },
+  '3x3': { rows: 3, cols: 3 }
+};
+
+// Smallest share of the grid a column or row can be dragged down to
+const MIN_SPLIT_RATIO = 0.1;
+
+const PLACEHOLDER_HTML = '<div class="terminal-placeholder"><span class="terminal-placeholder-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-placeholder-text">Select a project and click "Add Terminal"</span></div>';
+
+
+// Status indicator classes and tooltips, keyed by terminal status
+const STATUS_CLASSES = {
+  idle: 'active',
+  busy: 'busy',
+  starting: 'starting',
+  thinking: 'busy',
+  'running-tool': 'running-tool',
+  'awaiting-permission': 'awaiting-permission',
+  'awaiting-input': 'active',
+  exited: 'exited',
+  error: 'error'
+};
+const STATUS_LABELS = {
+  idle: 'Idle',
+  busy: 'Busy',
+  starting: 'Starting',
+  thinking: 'Thinking',
+  'running-tool': 'Running tool',
+  'awaiting-permission': 'Waiting for permission',
+  'awaiting-input': 'Waiting for input',
+  exited: 'Exited',
+  error: 'Error'
+};
+const ALL_STATUS_CLASSES = ['active', 'busy', 'starting', 'running-tool', 'awaiting-permission', 'exited', 'error'];
+
+// Statuses in which a terminal is working on something
+function isWorkingStatus(status) {
+  return status === 'busy' || status === 'thinking' || status === 'running-tool';
+}
+
+// Show a terminal status on its header indicator (no status clears it)
+function setStatusIndicator(statusEl, status) {
+  if (!statusEl) return;
+  ALL_STATUS_CLASSES.forEach(function(c) { statusEl.classList.remove(c); });
+  statusEl.dataset.status = status || '';
+  statusEl.title = status ? STATUS_LABELS[status] || status : '';
+  if (status && STATUS_CLASSES[status]) {
+    statusEl.classList.add(STATUS_CLASSES[status]);
+  }
+}
+
+// Show the title of the Claude session a terminal runs (no title clears it)
+function setSessionTitle(tabId, terminalId, title) {
+  var sessionEl = document.getElementById('session-title-' + tabId + '-' + terminalId);
+  if (!sessionEl) return;
+  sessionEl.textContent = title || '';
+  sessionEl.title = title || '';
+}
+
+// Show the branch of the git worktree a terminal runs in (no branch clears it)
+function setWorktreeBranch(tabId, terminalId, branch) {
+  var branchEl = document.getElementById('branch-' + tabId + '-' + terminalId);
+  if (!branchEl) return;
+  branchEl.textContent = branch || '';
+  branchEl.title = branch ? 'Worktree branch ' + branch : '';
+}
+
+// Show a terminal's estimated session cost in its header (no usage clears it)
+function setTerminalUsage(tabId, terminalId, usage, cost) {
+  var usageEl = document.getElementById('usage-' + tabId + '-' + terminalId);
+  if (!usageEl) return;
+  if (!usage) {
+    usageEl.textContent = '';
+    usageEl.title = '';
+    return;
+  }
+  usageEl.textContent = '$' + cost.toFixed(2);
+  usageEl.title = 'Estimated session cost\n' +
+    usage.inputTokens.toLocaleString() + ' input tokens\n' +
+    usage.outputTokens.toLocaleString() + ' output tokens\n' +
+    usage.cacheReadTokens.toLocaleString() + ' cache read tokens\n' +
+    usage.cacheCreationTokens.toLocaleString() + ' cache write tokens';
+}
 
 // Helper to get current tab state
 function getActiveTab() {
@@ -71,6 +167,13 @@ function setupTerminalEventListeners(tabId, terminalId) {
     });
   }
 
+  const findBtn = document.getElementById('find-' + tabId + '-' + terminalId);
+  if (findBtn) {
+    findBtn.addEventListener('click', function() {
+      openFindWidget(tabId, terminalId);
+    });
+  }
+
   const fullscreenBtn = document.getElementById('fullscreen-' + tabId + '-' + terminalId);
   if (fullscreenBtn) {
     fullscreenBtn.addEventListener('click', function() {
@@ -89,6 +192,28 @@ function setupTerminalEventListeners(tabId, terminalId) {
     });
   }
 
+  const saveTranscriptBtn = document.getElementById('save-transcript-' + tabId + '-' + terminalId);
+  if (saveTranscriptBtn) {
+    saveTranscriptBtn.addEventListener('click', function() {
+      vscode.postMessage({
+        command: 'exportTranscript',
+        tabId: tabId,
+        terminalId: terminalId
+      });
+    });
+  }
+
+  const reviewChangesBtn = document.getElementById('review-changes-' + tabId + '-' + terminalId);
+  if (reviewChangesBtn) {
+    reviewChangesBtn.addEventListener('click', function() {
+      vscode.postMessage({
+        command: 'reviewChanges',
+        tabId: tabId,
+        terminalId: terminalId
+      });
+    });
+  }
+
   const restartBtn = document.getElementById('restart-' + tabId + '-' + terminalId);
   if (restartBtn) {
     restartBtn.addEventListener('click', function() {
@@ -262,7 +387,12 @@ function createTab(tabId) {
     fitAddons: [],
     terminalInitialized: [false, false, false, false],
     terminalProjects: ['', '', '', ''],
-    visibleTerminalCount: 1
+    visibleTerminalCount: 1,
+    layout: 'auto',
+    splitRatios: null,
+    broadcastTargets: [],
+    searchAddons: [],
+    serializeAddons: []
   };
 
   // Create tab button
@@ -272,7 +402,8 @@ function createTab(tabId) {
   var tabBtn = document.createElement('button');
   tabBtn.className = 'tab-button';
   tabBtn.dataset.tabId = tabId;
-  tabBtn.innerHTML = '<span class="tab-label">Tab ' + tabId + '</span><span class="tab-activity"></span><span class="tab-close" title="Close tab"><svg viewBox="0 0 16 16"><path d="M8 8.707l3.646 3.647.708-.707L8.707 8l3.647-3.646-.707-.708L8 7.293 4.354 3.646l-.707.708L7.293 8l-3.646 3.646.707.708L8 8.707z"/></svg></span>';
+  tabBtn.dataset.vscodeContext = JSON.stringify({ webviewSection: 'tab', tabId: tabId, preventDefaultContextMenuItems: true });
+  tabBtn.innerHTML = '<span class="tab-label">Tab ' + tabId + '</span><span class="tab-activity"></span><span class="tab-unread" title="Needs attention"></span><span class="tab-close" title="Close tab"><svg viewBox="0 0 16 16"><path d="M8 8.707l3.646 3.647.708-.707L8.707 8l3.647-3.646-.707-.708L8 7.293 4.354 3.646l-.707.708L7.293 8l-3.646 3.646.707.708L8 8.707z"/></svg></span>';
   tabBar.insertBefore(tabBtn, addTabBtn);
 
   // Create grid for this tab
@@ -302,16 +433,20 @@ function createGridForTab(tabId) {
   grid.style.display = 'none';
 
   for (let i = 0; i < 4; i++) {
-    const container = document.createElement('div');
-    container.className = i === 0 ? 'terminal-container' : 'terminal-container hidden-slot';
-    container.id = 'term-container-' + tabId + '-' + i;
-    container.innerHTML = '<div class="terminal-header"><span class="terminal-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-title empty" id="terminal-title-' + tabId + '-' + i + '">Terminal ' + (i + 1) + '</span><div class="header-actions"><button class="action-btn pick-files-btn" id="pick-files-' + tabId + '-' + i + '" title="Insert file path"><svg viewBox="0 0 16 16"><path d="M1 3.5A1.5 1.5 0 0 1 2.5 2h2.764c.958 0 1.76.56 2.311 1.184C7.985 3.648 8.48 4 9 4h4.5A1.5 1.5 0 0 1 15 5.5v.64c.57.265.94.876.856 1.546l-.64 5.124A2.5 2.5 0 0 1 12.733 15H3.266a2.5 2.5 0 0 1-2.481-2.19l-.64-5.124A1.5 1.5 0 0 1 1 6.14V3.5zM2 6h12v-.5a.5.5 0 0 0-.5-.5H9c-.964 0-1.71-.629-2.174-1.154C6.374 3.334 5.82 3 5.264 3H2.5a.5.5 0 0 0-.5.5V6z"/></svg></button><button class="action-btn fullscreen-btn" id="fullscreen-' + tabId + '-' + i + '" title="Toggle fullscreen"><svg class="expand-icon" viewBox="0 0 16 16"><path d="M3 3v4h1V4h3V3H3zm10 0h-4v1h3v3h1V3zM4 12v-3H3v4h4v-1H4zm8-3v3h-3v1h4V9h-1z"/></svg><svg class="collapse-icon" style="display:none" viewBox="0 0 16 16"><path d="M2 2h5v5H2V2zm1 1v3h3V3H3zm7-1h5v5h-5V2zm1 1v3h3V3h-3zM2 9h5v5H2V9zm1 1v3h3v-3H3zm7-1h5v5h-5V9zm1 1v3h3v-3h-3z"/></svg></button><button class="action-btn restart-btn" id="restart-' + tabId + '-' + i + '" title="Restart terminal"><svg viewBox="0 0 16 16"><path d="M8 3a5 5 0 1 0 4.546 2.914.5.5 0 1 1 .908-.418A6 6 0 1 1 8 2v1z"/><path d="M8 1v3.5a.5.5 0 0 0 .854.354l1.5-1.5a.5.5 0 0 0-.708-.708L8.5 3.793V1a.5.5 0 0 0-1 0z"/></svg></button><button class="action-btn kill-btn" id="kill-' + tabId + '-' + i + '" title="Kill terminal"><svg viewBox="0 0 16 16"><path d="M5.5 5.5A.5.5 0 0 1 6 6v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5zm2.5 0a.5.5 0 0 1 .5.5v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5zm3 .5a.5.5 0 0 0-1 0v6a.5.5 0 0 0 1 0V6z"/><path fill-rule="evenodd" d="M14.5 3a1 1 0 0 1-1 1H13v9a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V4h-.5a1 1 0 0 1-1-1V2a1 1 0 0 1 1-1H6a1 1 0 0 1 1-1h2a1 1 0 0 1 1 1h3.5a1 1 0 0 1 1 1v1zM4.118 4L4 4.059V13a1 1 0 0 0 1 1h6a1 1 0 0 0 1-1V4.059L11.882 4H4.118zM2.5 3V2h11v1h-11z"/></svg></button></div><span class="status-indicator" id="status-' + tabId + '-' + i + '"></span></div><div class="terminal-wrapper"><div id="terminal-' + tabId + '-' + i + '"><div class="terminal-placeholder"><span class="terminal-placeholder-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-placeholder-text">Select a project and click "Add Terminal"</span></div></div></div>';
-    grid.appendChild(container);
+    grid.appendChild(createTerminalContainer(tabId, i));
   }
 
   return grid;
 }
 
+function createTerminalContainer(tabId, i) {
+  const container = document.createElement('div');
+  container.className = i === 0 ? 'terminal-container' : 'terminal-container hidden-slot';
+  container.id = 'term-container-' + tabId + '-' + i;
+  container.innerHTML = '<div class="terminal-header"><span class="terminal-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-title empty" id="terminal-title-' + tabId + '-' + i + '">Terminal ' + (i + 1) + '</span><span class="terminal-session" id="session-title-' + tabId + '-' + i + '"></span><span class="terminal-branch" id="branch-' + tabId + '-' + i + '"></span><span class="terminal-usage" id="usage-' + tabId + '-' + i + '"></span><div class="header-actions"><button class="action-btn pick-files-btn" id="pick-files-' + tabId + '-' + i + '" title="Insert file path"><svg viewBox="0 0 16 16"><path d="M1 3.5A1.5 1.5 0 0 1 2.5 2h2.764c.958 0 1.76.56 2.311 1.184C7.985 3.648 8.48 4 9 4h4.5A1.5 1.5 0 0 1 15 5.5v.64c.57.265.94.876.856 1.546l-.64 5.124A2.5 2.5 0 0 1 12.733 15H3.266a2.5 2.5 0 0 1-2.481-2.19l-.64-5.124A1.5 1.5 0 0 1 1 6.14V3.5zM2 6h12v-.5a.5.5 0 0 0-.5-.5H9c-.964 0-1.71-.629-2.174-1.154C6.374 3.334 5.82 3 5.264 3H2.5a.5.5 0 0 0-.5.5V6z"/></svg></button><button class="action-btn find-btn" id="find-' + tabId + '-' + i + '" title="Find (Ctrl+F)"><svg viewBox="0 0 16 16"><path d="M11.74 10.33a6 6 0 1 0-1.41 1.41l3.96 3.97a1 1 0 0 0 1.42-1.42l-3.97-3.96zM6.5 11a4.5 4.5 0 1 1 0-9 4.5 4.5 0 0 1 0 9z"/></svg></button><button class="action-btn fullscreen-btn" id="fullscreen-' + tabId + '-' + i + '" title="Toggle fullscreen"><svg class="expand-icon" viewBox="0 0 16 16"><path d="M3 3v4h1V4h3V3H3zm10 0h-4v1h3v3h1V3zM4 12v-3H3v4h4v-1H4zm8-3v3h-3v1h4V9h-1z"/></svg><svg class="collapse-icon" style="display:none" viewBox="0 0 16 16"><path d="M2 2h5v5H2V2zm1 1v3h3V3H3zm7-1h5v5h-5V2zm1 1v3h3V3h-3zM2 9h5v5H2V9zm1 1v3h3v-3H3zm7-1h5v5h-5V9zm1 1v3h3v-3h-3z"/></svg></button><button class="action-btn review-changes-btn" id="review-changes-' + tabId + '-' + i + '" title="Review changes"><svg viewBox="0 0 16 16"><path d="M5 1.5a.5.5 0 0 1 .5.5v2h2a.5.5 0 0 1 0 1h-2v2a.5.5 0 0 1-1 0V5h-2a.5.5 0 0 1 0-1h2V2a.5.5 0 0 1 .5-.5zM2.5 10h5a.5.5 0 0 1 0 1h-5a.5.5 0 0 1 0-1zM10 1h3.5A1.5 1.5 0 0 1 15 2.5v11a1.5 1.5 0 0 1-1.5 1.5H10v-1h3.5a.5.5 0 0 0 .5-.5v-11a.5.5 0 0 0-.5-.5H10V1z"/></svg></button><button class="action-btn save-transcript-btn" id="save-transcript-' + tabId + '-' + i + '" title="Save transcript"><svg viewBox="0 0 16 16"><path d="M13.35 2.35L12 1H2.5A1.5 1.5 0 0 0 1 2.5v11A1.5 1.5 0 0 0 2.5 15h11a1.5 1.5 0 0 0 1.5-1.5V4l-1.65-1.65zM5 2h5v3H5V2zm9 11.5a.5.5 0 0 1-.5.5H12V9.5A1.5 1.5 0 0 0 10.5 8h-5A1.5 1.5 0 0 0 4 9.5V14h-.5a.5.5 0 0 1-.5-.5v-11a.5.5 0 0 1 .5-.5H4v3a1 1 0 0 0 1 1h5a1 1 0 0 0 1-1V2h.59L14 4.41V13.5zM5 14V9.5a.5.5 0 0 1 .5-.5h5a.5.5 0 0 1 .5.5V14H5z"/></svg></button><button class="action-btn restart-btn" id="restart-' + tabId + '-' + i + '" title="Restart terminal"><svg viewBox="0 0 16 16"><path d="M8 3a5 5 0 1 0 4.546 2.914.5.5 0 1 1 .908-.418A6 6 0 1 1 8 2v1z"/><path d="M8 1v3.5a.5.5 0 0 0 .854.354l1.5-1.5a.5.5 0 0 0-.708-.708L8.5 3.793V1a.5.5 0 0 0-1 0z"/></svg></button><button class="action-btn kill-btn" id="kill-' + tabId + '-' + i + '" title="Kill terminal"><svg viewBox="0 0 16 16"><path d="M5.5 5.5A.5.5 0 0 1 6 6v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5zm2.5 0a.5.5 0 0 1 .5.5v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5zm3 .5a.5.5 0 0 0-1 0v6a.5.5 0 0 0 1 0V6z"/><path fill-rule="evenodd" d="M14.5 3a1 1 0 0 1-1 1H13v9a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V4h-.5a1 1 0 0 1-1-1V2a1 1 0 0 1 1-1H6a1 1 0 0 1 1-1h2a1 1 0 0 1 1 1h3.5a1 1 0 0 1 1 1v1zM4.118 4L4 4.059V13a1 1 0 0 0 1 1h6a1 1 0 0 0 1-1V4.059L11.882 4H4.118zM2.5 3V2h11v1h-11z"/></svg></button></div><span class="status-indicator" id="status-' + tabId + '-' + i + '"></span></div><div class="terminal-wrapper"><div id="terminal-' + tabId + '-' + i + '"><div class="terminal-placeholder"><span class="terminal-placeholder-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-placeholder-text">Select a project and click "Add Terminal"</span></div></div></div>';
+  return container;
+}
+
 function switchTabUI(tabId) {
   if (!tabState[tabId]) return;
 
@@ -327,6 +462,8 @@ function switchTabUI(tabId) {
     grid.style.display = parseInt(grid.dataset.tabId) === tabId ? '' : 'none';
   });
 
+  updateBroadcastButton();
+
   // Clear activity indicator
   const activeBtn = document.querySelector('.tab-button[data-tab-id="' + tabId + '"]');
   if (activeBtn) activeBtn.classList.remove('has-activity');
@@ -375,13 +512,24 @@ function attachTabButtonListeners(tabBtn) {
   }
 }
 
-function updateGridLayout() {
-  const tab = getActiveTab();
+function updateGridLayout(tabId) {
+  tabId = tabId || activeTabId;
+  const tab = getTab(tabId);
   const visibleTerminalCount = tab ? tab.visibleTerminalCount : 1;
-  const grid = document.querySelector('.grid[data-tab-id="' + activeTabId + '"]');
+  const grid = document.querySelector('.grid[data-tab-id="' + tabId + '"]');
   if (!grid) return;
-  grid.classList.remove('terminals-1', 'terminals-2');
-  if (visibleTerminalCount === 1) {
+  grid.classList.remove('terminals-1', 'terminals-2', 'fixed-layout');
+  grid.style.gridTemplateColumns = '';
+  grid.style.gridTemplateRows = '';
+  renderSplitters(tabId);
+
+  if (tab && tab.layout !== 'auto') {
+    // Fixed layouts size tracks from the splitter ratios
+    var ratios = getSplitRatios(tab);
+    grid.classList.add('fixed-layout');
+    grid.style.gridTemplateColumns = ratios.columns.map(toFr).join(' ');
+    grid.style.gridTemplateRows = ratios.rows.map(toFr).join(' ');
+  } else if (visibleTerminalCount === 1) {
     grid.classList.add('terminals-1');
   } else if (visibleTerminalCount === 2) {
     grid.classList.add('terminals-2');
@@ -389,7 +537,429 @@ function updateGridLayout() {
   // For 3-4 terminals, use default 2x2 grid (no extra class needed)
 
   // Refit terminals after layout change (wait for 150ms CSS transition to complete)
-  setTimeout(fitAll, 200);
+  if (tabId === activeTabId) {
+    setTimeout(fitAll, 200);
+  }
+}
+
+function toFr(ratio) {
+  return ratio + 'fr';
+}
+
+// Splitter ratios of a tab, equal sizes when none were dragged
+function getSplitRatios(tab) {
+  var layout = GRID_LAYOUTS[tab.layout] || GRID_LAYOUTS.auto;
+  var ratios = tab.splitRatios;
+  if (ratios && ratios.columns.length === layout.cols && ratios.rows.length === layout.rows) {
+    return ratios;
+  }
+  return {
+    columns: equalRatios(layout.cols),
+    rows: equalRatios(layout.rows)
+  };
+}
+
+function equalRatios(count) {
+  var ratios = [];
+  for (var i = 0; i < count; i++) ratios.push(1 / count);
+  return ratios;
+}
+
+// Make sure a tab's grid has containers for the first count slots
+function ensureSlots(tabId, count) {
+  var grid = document.querySelector('.grid[data-tab-id="' + tabId + '"]');
+  if (!grid) return;
+  var added = false;
+  for (var i = 0; i < count; i++) {
+    if (!document.getElementById('term-container-' + tabId + '-' + i)) {
+      var container = createTerminalContainer(tabId, i);
+      var firstSplitter = grid.querySelector('.splitter');
+      grid.insertBefore(container, firstSplitter);
+      setupTerminalEventListeners(tabId, i);
+      added = true;
+    }
+  }
+  if (added) observeTerminalWrappers();
+}
+
+function getSlotContainers(tabId) {
+  return Array.from(document.querySelectorAll('.grid[data-tab-id="' + tabId + '"] > .terminal-container'));
+}
+
+// Apply a grid layout sent by the extension
+function setTabLayout(tabId, layout, splitRatios) {
+  var tab = getTab(tabId);
+  if (!tab) return;
+  tab.layout = GRID_LAYOUTS[layout] ? layout : 'auto';
+  tab.splitRatios = splitRatios || null;
+
+  var size = GRID_LAYOUTS[tab.layout];
+  var slotCount = size.rows * size.cols;
+  ensureSlots(tabId, slotCount);
+
+  var visible = 0;
+  getSlotContainers(tabId).forEach(function(container, i) {
+    // Fixed layouts show every slot, automatic layout only the ones in use
+    var show = tab.layout === 'auto'
+      ? i < slotCount && !!tab.terminalProjects[i]
+      : i < slotCount;
+    container.classList.toggle('hidden-slot', !show);
+    if (show) visible++;
+    if (show && !tab.terminalInitialized[i]) {
+      var termEl = document.getElementById('terminal-' + tabId + '-' + i);
+      if (termEl && !termEl.querySelector('.terminal-placeholder')) termEl.innerHTML = PLACEHOLDER_HTML;
+    }
+  });
+
+  if (visible === 0) {
+    var first = document.getElementById('term-container-' + tabId + '-0');
+    if (first) first.classList.remove('hidden-slot');
+    visible = 1;
+  }
+  tab.visibleTerminalCount = visible;
+  updateGridLayout(tabId);
+}
+
+// Draw draggable splitters between the columns and rows of a fixed layout
+function renderSplitters(tabId) {
+  var grid = document.querySelector('.grid[data-tab-id="' + tabId + '"]');
+  if (!grid) return;
+  grid.querySelectorAll('.splitter').forEach(function(el) { el.remove(); });
+
+  var tab = getTab(tabId);
+  if (!tab || tab.layout === 'auto') return;
+
+  var ratios = getSplitRatios(tab);
+  ['columns', 'rows'].forEach(function(axis) {
+    var offset = 0;
+    for (var i = 0; i < ratios[axis].length - 1; i++) {
+      offset += ratios[axis][i];
+      var splitter = document.createElement('div');
+      splitter.className = 'splitter ' + (axis === 'columns' ? 'splitter-col' : 'splitter-row');
+      if (axis === 'columns') {
+        splitter.style.left = (offset * 100) + '%';
+      } else {
+        splitter.style.top = (offset * 100) + '%';
+      }
+      splitter.addEventListener('mousedown', startSplitterDrag(tabId, axis, i));
+      grid.appendChild(splitter);
+    }
+  });
+}
+
+// Drag handler moving the boundary between track index and index + 1
+function startSplitterDrag(tabId, axis, index) {
+  return function(e) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+
+    var tab = getTab(tabId);
+    var grid = document.querySelector('.grid[data-tab-id="' + tabId + '"]');
+    if (!tab || !grid) return;
+
+    var current = getSplitRatios(tab);
+    var ratios = { columns: current.columns.slice(), rows: current.rows.slice() };
+    var list = ratios[axis];
+    var start = 0;
+    for (var i = 0; i < index; i++) start += list[i];
+    var end = start + list[index] + list[index + 1];
+    grid.classList.add('resizing');
+
+    function onMove(moveEvent) {
+      var rect = grid.getBoundingClientRect();
+      var pos = axis === 'columns'
+        ? (moveEvent.clientX - rect.left) / rect.width
+        : (moveEvent.clientY - rect.top) / rect.height;
+      pos = Math.min(end - MIN_SPLIT_RATIO, Math.max(start + MIN_SPLIT_RATIO, pos));
+      list[index] = pos - start;
+      list[index + 1] = end - pos;
+      tab.splitRatios = ratios;
+      updateGridLayout(tabId);
+    }
+
+    function onUp() {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      grid.classList.remove('resizing');
+      vscode.postMessage({ command: 'setSplitRatios', tabId: tabId, splitRatios: ratios });
+    }
+
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  };
+}
+
+// Highlight colours for find matches, overview ruler colours are required by the addon
+const FIND_DECORATIONS = {
+  matchBackground: '#623315',
+  matchOverviewRuler: '#d186167e',
+  activeMatchBackground: '#515c6a',
+  activeMatchColorOverviewRuler: '#a0a0a0cc'
+};
+
+// Show the find widget of a slot, creating it on first use
+function openFindWidget(tabId, terminalId) {
+  var tab = getTab(tabId);
+  if (!tab || !tab.terminals[terminalId] || !tab.searchAddons[terminalId]) return;
+
+  var widget = getFindWidget(tabId, terminalId);
+  if (!widget) return;
+  widget.classList.remove('hidden');
+
+  var input = widget.querySelector('.find-input');
+  var selection = tab.terminals[terminalId].getSelection();
+  if (selection && selection.indexOf('\n') === -1) input.value = selection;
+  input.focus();
+  input.select();
+  if (input.value) runFind(tabId, terminalId, 'next', true);
+}
+
+function getFindWidget(tabId, terminalId) {
+  var id = 'find-widget-' + tabId + '-' + terminalId;
+  var widget = document.getElementById(id);
+  if (widget) return widget;
+
+  var termEl = document.getElementById('terminal-' + tabId + '-' + terminalId);
+  var wrapper = termEl ? termEl.parentElement : null;
+  if (!wrapper) return null;
+
+  widget = document.createElement('div');
+  widget.className = 'find-widget hidden';
+  widget.id = id;
+  widget.innerHTML =
+    '<input class="find-input" type="text" placeholder="Find" spellcheck="false">' +
+    '<button class="find-option" data-option="caseSensitive" title="Match case">Aa</button>' +
+    '<button class="find-option" data-option="regex" title="Use regular expression">.*</button>' +
+    '<span class="find-count">No results</span>' +
+    '<button class="find-action find-prev" title="Previous match (Shift+Enter)"><svg viewBox="0 0 16 16"><path d="M8 4.3l-5.4 5.3.8.8L8 5.8l4.6 4.6.8-.8z"/></svg></button>' +
+    '<button class="find-action find-next" title="Next match (Enter)"><svg viewBox="0 0 16 16"><path d="M8 11.7l5.4-5.3-.8-.8L8 10.2 3.4 5.6l-.8.8z"/></svg></button>' +
+    '<button class="find-action find-close" title="Close (Escape)"><svg viewBox="0 0 16 16"><path d="M8 8.707l3.646 3.647.708-.707L8.707 8l3.647-3.646-.707-.708L8 7.293 4.354 3.646l-.707.708L7.293 8l-3.646 3.646.707.708L8 8.707z"/></svg></button>';
+  wrapper.appendChild(widget);
+
+  var input = widget.querySelector('.find-input');
+  input.addEventListener('input', function() {
+    runFind(tabId, terminalId, 'next', true);
+  });
+  input.addEventListener('keydown', function(e) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      runFind(tabId, terminalId, e.shiftKey ? 'previous' : 'next', false);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      closeFindWidget(tabId, terminalId);
+    }
+  });
+  widget.querySelectorAll('.find-option').forEach(function(btn) {
+    btn.addEventListener('click', function() {
+      btn.classList.toggle('active');
+      runFind(tabId, terminalId, 'next', true);
+      input.focus();
+    });
+  });
+  widget.querySelector('.find-prev').addEventListener('click', function() {
+    runFind(tabId, terminalId, 'previous', false);
+  });
+  widget.querySelector('.find-next').addEventListener('click', function() {
+    runFind(tabId, terminalId, 'next', false);
+  });
+  widget.querySelector('.find-close').addEventListener('click', function() {
+    closeFindWidget(tabId, terminalId);
+  });
+
+  return widget;
+}
+
+// Find the next or previous match of the widget's query
+function runFind(tabId, terminalId, direction, incremental) {
+  var tab = getTab(tabId);
+  var widget = document.getElementById('find-widget-' + tabId + '-' + terminalId);
+  var searchAddon = tab ? tab.searchAddons[terminalId] : null;
+  if (!widget || !searchAddon) return;
+
+  var query = widget.querySelector('.find-input').value;
+  var regex = widget.querySelector('[data-option="regex"]').classList.contains('active');
+  var caseSensitive = widget.querySelector('[data-option="caseSensitive"]').classList.contains('active');
+  widget.classList.remove('invalid');
+
+  if (!query) {
+    searchAddon.clearDecorations();
+    updateFindCount(tabId, terminalId, null);
+    return;
+  }
+  if (regex) {
+    try {
+      new RegExp(query);
+    } catch (e) {
+      widget.classList.add('invalid');
+      searchAddon.clearDecorations();
+      widget.querySelector('.find-count').textContent = 'Invalid pattern';
+      return;
+    }
+  }
+
+  var options = {
+    regex: regex,
+    caseSensitive: caseSensitive,
+    incremental: incremental,
+    decorations: FIND_DECORATIONS
+  };
+  var found = direction === 'previous'
+    ? searchAddon.findPrevious(query, options)
+    : searchAddon.findNext(query, options);
+  if (!found) updateFindCount(tabId, terminalId, null);
+}
+
+function updateFindCount(tabId, terminalId, results) {
+  var widget = document.getElementById('find-widget-' + tabId + '-' + terminalId);
+  if (!widget) return;
+  var count = widget.querySelector('.find-count');
+  if (!results || results.resultCount === 0) {
+    count.textContent = 'No results';
+  } else if (results.resultIndex < 0) {
+    count.textContent = results.resultCount + ' results';
+  } else {
+    count.textContent = (results.resultIndex + 1) + ' of ' + results.resultCount;
+  }
+}
+
+function closeFindWidget(tabId, terminalId) {
+  var widget = document.getElementById('find-widget-' + tabId + '-' + terminalId);
+  if (!widget || widget.classList.contains('hidden')) return;
+  widget.classList.add('hidden');
+
+  var tab = getTab(tabId);
+  if (tab && tab.searchAddons[terminalId]) tab.searchAddons[terminalId].clearDecorations();
+  if (tab && tab.terminals[terminalId]) tab.terminals[terminalId].focus();
+}
+
+// Search the buffers of every terminal in every tab for the extension
+function searchAllTerminals(query, regex, caseSensitive) {
+  var MAX_MATCHES = 1000;
+  var matches = [];
+  var pattern;
+  try {
+    var source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern = new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (e) {
+    return matches;
+  }
+
+  Object.keys(tabState).map(Number).sort(function(a, b) { return a - b; }).forEach(function(tabId) {
+    var tab = tabState[tabId];
+    tab.terminals.forEach(function(term, terminalId) {
+      if (!term || !tab.terminalInitialized[terminalId]) return;
+      var buffer = term.buffer.active;
+      var cols = term.cols;
+
+      // Join wrapped rows so matches spanning a wrap are found
+      for (var row = 0; row < buffer.length && matches.length < MAX_MATCHES; row++) {
+        var line = buffer.getLine(row);
+        if (!line || line.isWrapped) continue;
+        var text = line.translateToString(false);
+        var next = buffer.getLine(row + 1);
+        for (var r = row + 1; next && next.isWrapped; r++) {
+          text += next.translateToString(false);
+          next = buffer.getLine(r + 1);
+        }
+        text = text.replace(/\s+$/, '');
+
+        pattern.lastIndex = 0;
+        var match;
+        while ((match = pattern.exec(text)) !== null && matches.length < MAX_MATCHES) {
+          if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+          }
+          matches.push({
+            tabId: tabId,
+            terminalId: terminalId,
+            line: row + Math.floor(match.index / cols),
+            column: match.index % cols,
+            length: match[0].length,
+            text: text.length > 200 ? text.slice(0, 200) : text
+          });
+        }
+      }
+    });
+  });
+
+  return matches;
+}
+
+// A terminal's buffer and scrollback as ANSI text for a transcript, null if the slot is empty
+function serializeTerminal(tabId, terminalId) {
+  var tab = getTab(tabId);
+  var term = tab ? tab.terminals[terminalId] : null;
+  if (!term || !tab.terminalInitialized[terminalId]) return null;
+
+  var serializeAddon = tab.serializeAddons[terminalId];
+  if (serializeAddon) {
+    return serializeAddon.serialize({ excludeModes: true, excludeAltBuffer: true });
+  }
+
+  // Without the addon, export the text of the rows, joining wrapped ones
+  var buffer = term.buffer.normal;
+  var lines = [];
+  for (var row = 0; row < buffer.length; row++) {
+    var line = buffer.getLine(row);
+    if (!line) continue;
+    var text = line.translateToString(false);
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += text;
+    } else {
+      lines.push(text);
+    }
+  }
+  return lines.map(function(text) { return text.replace(/\s+$/, ''); }).join('\n').replace(/\n+$/, '');
+}
+
+// Scroll a terminal to a buffer line and select the match on it
+function revealLine(tabId, terminalId, line, column, length) {
+  switchTabUI(tabId);
+  var tab = getTab(tabId);
+  var term = tab ? tab.terminals[terminalId] : null;
+  if (!term) return;
+
+  term.scrollToLine(Math.max(0, line - Math.floor(term.rows / 2)));
+  term.select(column, line, length);
+  term.focus();
+}
+
+// Mark the slots of a tab that receive broadcast input
+function setBroadcastTargets(tabId, terminalIds) {
+  var tab = getTab(tabId);
+  if (!tab) return;
+  tab.broadcastTargets = terminalIds;
+
+  getSlotContainers(tabId).forEach(function(container, i) {
+    container.classList.toggle('broadcasting', terminalIds.indexOf(i) !== -1);
+  });
+  var tabBtn = document.querySelector('.tab-button[data-tab-id="' + tabId + '"]');
+  if (tabBtn) tabBtn.classList.toggle('broadcasting', terminalIds.length > 0);
+  updateBroadcastButton();
+}
+
+function updateBroadcastButton() {
+  var btn = document.getElementById('broadcast-btn');
+  var tab = getActiveTab();
+  if (btn) btn.classList.toggle('active', !!tab && tab.broadcastTargets.length > 0);
+}
+
+// Put a slot of a fixed layout back to its empty placeholder
+function resetTerminalSlot(tabId, terminalId) {
+  var tab = getTab(tabId);
+  if (!tab) return;
+  if (tab.terminals[terminalId]) {
+    tab.terminals[terminalId].dispose();
+  }
+  closeFindWidget(tabId, terminalId);
+  tab.terminals[terminalId] = null;
+  tab.fitAddons[terminalId] = null;
+  tab.searchAddons[terminalId] = null;
+  tab.serializeAddons[terminalId] = null;
+  tab.terminalInitialized[terminalId] = false;
+  var termEl = document.getElementById('terminal-' + tabId + '-' + terminalId);
+  if (termEl) termEl.innerHTML = PLACEHOLDER_HTML;
 }
 
 function removeTerminalSlot(terminalId) {
@@ -400,13 +970,9 @@ function removeTerminalSlot(terminalId) {
   if (container) container.classList.add('hidden-slot');
 
   // Recalculate visible terminal count
-  tab.visibleTerminalCount = 0;
-  for (var i = 0; i < 4; i++) {
-    var c = document.getElementById('term-container-' + activeTabId + '-' + i);
-    if (c && !c.classList.contains('hidden-slot')) {
-      tab.visibleTerminalCount++;
-    }
-  }
+  tab.visibleTerminalCount = getSlotContainers(activeTabId).filter(function(c) {
+    return !c.classList.contains('hidden-slot');
+  }).length;
 
   // Ensure at least one terminal slot is visible (show placeholder)
   if (tab.visibleTerminalCount === 0) {
@@ -417,7 +983,7 @@ function removeTerminalSlot(terminalId) {
       // Restore placeholder content
       var termEl = document.getElementById('terminal-' + activeTabId + '-0');
       if (termEl && !termEl.querySelector('.terminal-placeholder')) {
-        termEl.innerHTML = '<div class="terminal-placeholder"><span class="terminal-placeholder-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-placeholder-text">Select a project and click "Add Terminal"</span></div>';
+        termEl.innerHTML = PLACEHOLDER_HTML;
         tab.terminalInitialized[0] = false;
       }
     }
@@ -497,8 +1063,45 @@ function initializeTerminal(i) {
   var fitAddon = new FitAddon.FitAddon();
   term.loadAddon(fitAddon);
 
+  // Search addon backs the find widget, skipped if its script failed to load
+  if (typeof SearchAddon !== 'undefined') {
+    var searchAddon = new SearchAddon.SearchAddon();
+    term.loadAddon(searchAddon);
+    searchAddon.onDidChangeResults(function(results) {
+      updateFindCount(currentTabId, terminalId, results);
+    });
+    tab.searchAddons[i] = searchAddon;
+  }
+
+  // Serialize addon backs transcript export, plain text is exported without it
+  if (typeof SerializeAddon !== 'undefined') {
+    var serializeAddon = new SerializeAddon.SerializeAddon();
+    term.loadAddon(serializeAddon);
+    tab.serializeAddons[i] = serializeAddon;
+  }
+
   term.open(container);
 
+  // Ctrl/Cmd+F opens the find widget instead of reaching the shell
+  term.attachCustomKeyEventHandler(function(e) {
+    if (e.type === 'keydown' && (e.ctrlKey || e.metaKey) && !e.altKey && (e.key === 'f' || e.key === 'F')) {
+      e.preventDefault();
+      openFindWidget(currentTabId, terminalId);
+      return false;
+    }
+    return true;
+  });
+
+  // Tell the extension which terminal has focus so it can skip notifying about it
+  if (term.textarea) {
+    term.textarea.addEventListener('focus', function() {
+      reportTerminalFocus(currentTabId, terminalId);
+    });
+    term.textarea.addEventListener('blur', function() {
+      reportTerminalFocus();
+    });
+  }
+
   // Register file link provider for clickable file paths
   term.registerLinkProvider({
     provideLinks: function(bufferLineNumber, callback) {
@@ -507,55 +1110,23 @@ function initializeTerminal(i) {
         callback(undefined);
         return;
       }
-      var lineText = line.translateToString(true);
-      var links = [];
-
-      // Simple file path pattern: matches paths with extensions and optional :line:col
-      // Examples: src/file.ts:10:5, ./foo.ts, /abs/path.js:42, file.tsx:10
-      var fileRegex = /([.]{0,2}\/)?([\/\w.-]+\/)*[\w.-]+\.[a-zA-Z]{1,10}(:\d+)?(:\d+)?/g;
-
-      var match;
-      while ((match = fileRegex.exec(lineText)) !== null) {
-        var fullMatch = match[0];
-
-        // Skip URLs
-        if (lineText.substring(Math.max(0, match.index - 10), match.index).includes('://')) continue;
-
-        // Skip very short matches
-        if (fullMatch.length < 3) continue;
-
-        // Parse line:col from the match
-        var parts = fullMatch.split(':');
-        var filePath = parts[0];
-        var lineNum = parts[1] ? parseInt(parts[1], 10) : undefined;
-        var colNum = parts[2] ? parseInt(parts[2], 10) : undefined;
-
-        // Skip if no extension
-        if (!/\\.[a-zA-Z0-9]+$/.test(filePath)) continue;
-
-        var matchStart = match.index;
-        var matchEnd = matchStart + fullMatch.length;
-
-        (function(fp, ln, cn) {
-          links.push({
-            range: {
-              start: { x: matchStart + 1, y: bufferLineNumber + 1 },
-              end: { x: matchEnd + 1, y: bufferLineNumber + 1 }
-            },
-            text: fullMatch,
-            activate: function(event, text) {
-              vscode.postMessage({
-                command: 'openFile',
-                filePath: fp,
-                line: ln,
-                column: cn,
-                tabId: currentTabId,
-                terminalId: terminalId
-              });
-            }
-          });
-        })(filePath, lineNum, colNum);
-      }
+      var links = findFileLinks(line.translateToString(true)).map(function(fileLink) {
+        return {
+          range: {
+            start: { x: fileLink.start + 1, y: bufferLineNumber + 1 },
+            end: { x: fileLink.end, y: bufferLineNumber + 1 }
+          },
+          text: fileLink.text,
+          activate: function() {
+            vscode.postMessage({
+              command: 'openFile',
+              text: fileLink.text,
+              tabId: currentTabId,
+              terminalId: terminalId
+            });
+          }
+        };
+      });
 
       callback(links.length > 0 ? links : undefined);
     }
@@ -611,31 +1182,14 @@ function initializeTerminal(i) {
     var links = [];
 
     // File paths
-    var fileRegex = /([.]{0,2}\/)?([\/\w.-]+\/)*[\w.-]+\.[a-zA-Z]{1,10}(:\d+)?(:\d+)?/g;
-    var match;
-    while ((match = fileRegex.exec(lineText)) !== null) {
-      var fullMatch = match[0];
-      if (fullMatch.length < 3) continue;
-      if (lineText.substring(Math.max(0, match.index - 10), match.index).includes('://')) continue;
-
-      var parts = fullMatch.split(':');
-      var filePath = parts[0];
-      if (!/\.[a-zA-Z0-9]+$/.test(filePath)) continue;
-
-      var startX = match.index;
-      var endX = startX + fullMatch.length;
-
-      if (x >= startX && x < endX) {
-        links.push({
-          type: 'file',
-          path: filePath,
-          line: parts[1] ? parseInt(parts[1], 10) : undefined,
-          column: parts[2] ? parseInt(parts[2], 10) : undefined
-        });
+    findFileLinks(lineText).forEach(function(fileLink) {
+      if (x >= fileLink.start && x < fileLink.end) {
+        links.push({ type: 'file', text: fileLink.text });
       }
-    }
+    });
 
     // URLs
+    var match;
     var urlRegex = /https?:\/\/[^\s<>"{}|\\^[\]]+/g;
     while ((match = urlRegex.exec(lineText)) !== null) {
       var url = match[0].replace(/[.,;:!?)]+$/, '');
@@ -713,9 +1267,7 @@ function initializeTerminal(i) {
         if (link.type === 'file') {
           vscode.postMessage({
             command: 'openFile',
-            filePath: link.path,
-            line: link.line,
-            column: link.column,
+            text: link.text,
             tabId: currentTabId,
             terminalId: terminalId
           });
@@ -771,6 +1323,60 @@ function initializeTerminal(i) {
   }, 100);
 }
 
+// Candidate file links in a line of output, resolved by the extension when clicked:
+//   src/app.ts:10:5  ./foo.ts  /abs/path.js:42  C:\\src\\app.cs(10,5)  file:///app/index.mjs:3
+//   at main (/app/index.js:10:5)      Node stack frames, the path inside the parentheses
+//   File "app/main.py", line 42      Python tracebacks
+//   /go/src/app/main.go:42 +0x1d      Go stack traces
+//   --- a/src/app.ts  +++ b/src/app.ts   diff headers
+//   "src/my file.ts"                  quoted paths, which may contain spaces
+var FILE_LINK_REGEX = /File "[^"]+", line \d+|(["'])[^"'\n]*\.[A-Za-z]\w{0,9}(?::\d+(?::\d+)?)?\1|(?:file:\/\/)?(?:[A-Za-z]:[\\\/]|~\/|\.{1,2}[\\\/]|[\\\/])?(?:[\w.@+-]+[\\\/])*[\w@+-][\w.@+-]*\.[A-Za-z]\w{0,9}(?::\d+(?::\d+)?|\(\d+(?:,\d+)?\)|, line \d+)?/g;
+
+// Find file links in a line as { start, end, text }, end exclusive
+function findFileLinks(lineText) {
+  var links = [];
+  var match;
+  FILE_LINK_REGEX.lastIndex = 0;
+  while ((match = FILE_LINK_REGEX.exec(lineText)) !== null) {
+    // Skip paths inside URLs, file:// links are files
+    var context = lineText.substring(Math.max(0, match.index - 10), match.index + 3);
+    if (context.indexOf('://') !== -1 && match[0].indexOf('file://') !== 0) continue;
+    if (match[0].length < 3) continue;
+    links.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+  }
+  return links;
+}
+
+// Report the focused terminal to the extension (no arguments means none)
+function reportTerminalFocus(tabId, terminalId) {
+  vscode.postMessage({ command: 'terminalFocus', tabId: tabId, terminalId: terminalId });
+}
+
+window.addEventListener('blur', function() {
+  reportTerminalFocus();
+});
+
+window.addEventListener('focus', function() {
+  var focusedContainer = document.activeElement && document.activeElement.closest
+    ? document.activeElement.closest('.terminal-container')
+    : null;
+  if (!focusedContainer) return;
+  var ids = focusedContainer.id.replace('term-container-', '').split('-');
+  reportTerminalFocus(parseInt(ids[0]), parseInt(ids[1]));
+});
+
+// Show or clear the unread marker on a terminal and its tab button
+function setTerminalAttention(tabId, terminalId, attention) {
+  var container = document.getElementById('term-container-' + tabId + '-' + terminalId);
+  if (container) container.classList.toggle('needs-attention', attention);
+
+  var grid = document.querySelector('.grid[data-tab-id="' + tabId + '"]');
+  var tabBtn = document.querySelector('.tab-button[data-tab-id="' + tabId + '"]');
+  if (grid && tabBtn) {
+    tabBtn.classList.toggle('has-unread', !!grid.querySelector('.terminal-container.needs-attention'));
+  }
+}
+
 // Fit all initialized terminals - simple and direct
 function fitAll() {
   var tab = getActiveTab();
@@ -879,6 +1485,15 @@ window.addEventListener('message', function(event) {
       applyTerminalConfig(message.config);
       break;
     case 'output':
+      // Acknowledge once xterm has written the output, the extension pauses the PTY while we are behind
+      var ackOutput = (function(tabId, terminalId, length) {
+        return function() {
+          vscode.postMessage({ command: 'outputAck', tabId: tabId, terminalId: terminalId, length: length });
+        };
+      })(msgTabId, message.terminalId, message.data.length);
+      if (!msgTab || !msgTab.terminals[message.terminalId]) {
+        ackOutput();
+      }
       if (msgTab && msgTab.terminals[message.terminalId]) {
         var outTerm = msgTab.terminals[message.terminalId];
         var termContainer = document.getElementById('terminal-' + msgTabId + '-' + message.terminalId);
@@ -889,7 +1504,7 @@ window.addEventListener('message', function(event) {
         var domAtBottom = viewport ? (viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - 10) : true;
         var isAtBottom = xtermAtBottom || domAtBottom;
 
-        outTerm.write(message.data);
+        outTerm.write(message.data, ackOutput);
 
         // Auto-scroll if user was at bottom
         if (isAtBottom && viewport) {
@@ -930,8 +1545,10 @@ window.addEventListener('message', function(event) {
     case 'killed':
       var killedTabId = message.tabId || activeTabId;
       var killedTab = getTab(killedTabId);
-      var killedStatusEl = document.getElementById('status-' + killedTabId + '-' + message.terminalId);
-      if (killedStatusEl) killedStatusEl.classList.remove('active', 'busy');
+      setStatusIndicator(document.getElementById('status-' + killedTabId + '-' + message.terminalId), null);
+      setTerminalUsage(killedTabId, message.terminalId, null, 0);
+      setSessionTitle(killedTabId, message.terminalId, null);
+      setWorktreeBranch(killedTabId, message.terminalId, null);
       // Reset terminal title
       var killedTitle = document.getElementById('terminal-title-' + killedTabId + '-' + message.terminalId);
       if (killedTitle) {
@@ -940,14 +1557,18 @@ window.addEventListener('message', function(event) {
       }
       // Clear project tracking
       if (killedTab) killedTab.terminalProjects[message.terminalId] = '';
+      closeFindWidget(killedTabId, message.terminalId);
 
       // Exit fullscreen if this terminal was fullscreened (only for active tab)
       if (killedTabId === activeTabId && currentFullscreen === message.terminalId) {
         toggleFullscreen(message.terminalId);
       }
 
-      // Hide this terminal and let remaining terminals expand (only for active tab)
-      if (killedTabId === activeTabId) {
+      // Fixed layouts keep the slot and show its placeholder again
+      if (killedTab && killedTab.layout !== 'auto') {
+        resetTerminalSlot(killedTabId, message.terminalId);
+      } else if (killedTabId === activeTabId) {
+        // Hide this terminal and let remaining terminals expand (only for active tab)
         removeTerminalSlot(message.terminalId);
       }
       break;
@@ -959,10 +1580,10 @@ window.addEventListener('message', function(event) {
         restartTab.terminals[message.terminalId].clear();
       }
       // Update status to show restarting
-      var restartStatusEl = document.getElementById('status-' + restartTabId + '-' + message.terminalId);
-      if (restartStatusEl) {
-        restartStatusEl.classList.remove('active', 'busy');
-      }
+      setStatusIndicator(document.getElementById('status-' + restartTabId + '-' + message.terminalId), null);
+      setTerminalUsage(restartTabId, message.terminalId, null, 0);
+      setSessionTitle(restartTabId, message.terminalId, null);
+      setWorktreeBranch(restartTabId, message.terminalId, null);
       // Save current title and show restarting message
       var restartTitle = document.getElementById('terminal-title-' + restartTabId + '-' + message.terminalId);
       if (restartTitle) {
@@ -976,18 +1597,9 @@ window.addEventListener('message', function(event) {
       break;
     case 'status':
       var statusTabId = message.tabId || activeTabId;
-      var statusEl = document.getElementById('status-' + statusTabId + '-' + message.terminalId);
-      if (statusEl) {
-        if (message.status === 'busy') {
-          statusEl.classList.remove('active');
-          statusEl.classList.add('busy');
-        } else {
-          statusEl.classList.remove('busy');
-          statusEl.classList.add('active');
-        }
-      }
+      setStatusIndicator(document.getElementById('status-' + statusTabId + '-' + message.terminalId), message.status);
       // Mark tab as having activity if not active
-      if (statusTabId !== activeTabId && message.status === 'busy') {
+      if (statusTabId !== activeTabId && isWorkingStatus(message.status)) {
         var tabBtn = document.querySelector('.tab-button[data-tab-id="' + statusTabId + '"]');
         if (tabBtn) tabBtn.classList.add('has-activity');
       }
@@ -1022,10 +1634,18 @@ window.addEventListener('message', function(event) {
         }
         currentFullscreen = -1;
       }
+      // Drop every tab except the first, the extension has reset its tabs too
+      Object.keys(tabState).map(Number).forEach(function(id) {
+        if (id !== 1) removeTab(id);
+      });
+      if (!tabState[1]) createTab(1);
+      switchTabUI(1);
+      nextTabId = 2;
       // Reset all terminals in active tab
       var refreshTab = getActiveTab();
       if (refreshTab) {
-        for (var i = 0; i < 4; i++) {
+        var refreshSlotCount = getSlotContainers(activeTabId).length;
+        for (var i = 0; i < refreshSlotCount; i++) {
           if (refreshTab.terminals[i]) {
             refreshTab.terminals[i].clear();
             refreshTab.terminals[i].reset();
@@ -1034,7 +1654,7 @@ window.addEventListener('message', function(event) {
           refreshTab.terminalProjects[i] = '';
           var termEl = document.getElementById('terminal-' + activeTabId + '-' + i);
           if (termEl) {
-            termEl.innerHTML = '<div class="terminal-placeholder"><span class="terminal-placeholder-icon"><svg viewBox="0 0 16 16"><path d="M0 3.5A1.5 1.5 0 0 1 1.5 2h13A1.5 1.5 0 0 1 16 3.5v9a1.5 1.5 0 0 1-1.5 1.5h-13A1.5 1.5 0 0 1 0 12.5v-9zM1.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h13a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-13z"/><path d="M2 5l4 3-4 3V5zm5 3h7v1H7V8z"/></svg></span><span class="terminal-placeholder-text">Select a project and click "Add Terminal"</span></div>';
+            termEl.innerHTML = PLACEHOLDER_HTML;
           }
           // Reset terminal title
           var titleEl = document.getElementById('terminal-title-' + activeTabId + '-' + i);
@@ -1042,18 +1662,18 @@ window.addEventListener('message', function(event) {
             titleEl.textContent = 'Terminal ' + (i + 1);
             titleEl.classList.add('empty');
           }
-          var statusEl = document.getElementById('status-' + activeTabId + '-' + i);
-          if (statusEl) statusEl.classList.remove('active', 'busy');
-          // Hide terminals 1-3
+          setStatusIndicator(document.getElementById('status-' + activeTabId + '-' + i), null);
+          // Hide every slot but the first
           if (i > 0) {
             var termContainer = document.getElementById('term-container-' + activeTabId + '-' + i);
             if (termContainer) termContainer.classList.add('hidden-slot');
           }
         }
         refreshTab.visibleTerminalCount = 1;
+        refreshTab.layout = 'auto';
+        refreshTab.splitRatios = null;
+        setBroadcastTargets(activeTabId, []);
       }
-      // Reset global controls
-      document.getElementById('global-project-select').value = '';
       updateGridLayout();
       break;
     case 'tabCreated':
@@ -1069,6 +1689,59 @@ window.addEventListener('message', function(event) {
     case 'tabSwitched':
       switchTabUI(message.tabId);
       break;
+    case 'layout':
+      setTabLayout(message.tabId, message.layout, message.splitRatios);
+      break;
+    case 'searchAll':
+      vscode.postMessage({
+        command: 'searchResults',
+        requestId: message.requestId,
+        matches: searchAllTerminals(message.query, message.regex, message.caseSensitive)
+      });
+      break;
+    case 'serializeTerminal':
+      vscode.postMessage({
+        command: 'terminalSerialized',
+        requestId: message.requestId,
+        data: serializeTerminal(message.tabId, message.terminalId)
+      });
+      break;
+    case 'revealLine':
+      revealLine(message.tabId, message.terminalId, message.line, message.column, message.length);
+      break;
+    case 'broadcast':
+      setBroadcastTargets(message.tabId, message.terminalIds);
+      break;
+    case 'usage':
+      setTerminalUsage(message.tabId, message.terminalId, message.usage, message.cost);
+      break;
+    case 'sessionTitle':
+      setSessionTitle(message.tabId, message.terminalId, message.title);
+      break;
+    case 'worktree':
+      setWorktreeBranch(message.tabId, message.terminalId, message.branch);
+      break;
+    case 'attention':
+      setTerminalAttention(message.tabId, message.terminalId, message.attention);
+      break;
+    case 'focusTerminal':
+      switchTabUI(message.tabId);
+      var focusTab = getTab(message.tabId);
+      if (focusTab && focusTab.terminals[message.terminalId]) {
+        focusTab.terminals[message.terminalId].focus();
+      }
+      break;
+    case 'pasteText':
+      // xterm wraps the text in bracketed paste when the program asked for it,
+      // so agents take multi-line text as one paste instead of submitting it
+      switchTabUI(message.tabId);
+      var pasteTab = getTab(message.tabId);
+      var pasteTerm = pasteTab && pasteTab.terminals[message.terminalId];
+      if (pasteTerm && pasteTab.terminalInitialized[message.terminalId]) {
+        pasteTerm.paste(message.text);
+        pasteTerm.focus();
+      }
+      break;
     case 'terminalStarted':
       // Extension started a terminal via QuickPick - initialize the UI
       handleTerminalStarted(message.tabId, message.terminalId, message.projectName);
@@ -1103,9 +1776,9 @@ function handleTerminalStarted(tabId, terminalId, projectName) {
   // Store project info
   tab.terminalProjects[terminalId] = projectName;
 
-  // Update status indicator
+  // Show as idle unless the extension already reported a status
   var statusEl = document.getElementById('status-' + tabId + '-' + terminalId);
-  if (statusEl) statusEl.classList.add('active');
+  if (statusEl && !statusEl.dataset.status) setStatusIndicator(statusEl, 'idle');
 }
 
 function applyTerminalConfig(config) {
@@ -1196,6 +1869,11 @@ function updateProjectSelectors(projects) {
 }
 
 
+// Broadcast button toggles broadcast mode of the active tab
+document.getElementById('broadcast-btn').addEventListener('click', function() {
+  vscode.postMessage({ command: 'toggleBroadcast', tabId: activeTabId });
+});
+
 // Add tab button event listener
 document.getElementById('add-tab-btn').addEventListener('click', function() {
   vscode.postMessage({ command: 'createTab' });